@@ -1,21 +1,128 @@
-import { describe, it, expect, mock, beforeEach } from "bun:test";
+import { describe, it, expect, mock, beforeEach, spyOn } from "bun:test";
+import { existsSync, mkdtempSync, readFileSync, readdirSync, rmSync, statSync, utimesSync, writeFileSync } from "fs";
+import { join, resolve } from "path";
+import { tmpdir } from "os";
+import { PNG } from "pngjs";
 
 // Mock agent-browser
 const mockBrowser = {
   launch: mock(() => Promise.resolve()),
 };
 
+// Fake Playwright context so tests can emit network events
+const contextHandlers = new Map<string, Set<(arg: any) => void>>();
+const mockContext = {
+  on: (event: string, handler: (arg: any) => void) => {
+    if (!contextHandlers.has(event)) contextHandlers.set(event, new Set());
+    contextHandlers.get(event)!.add(handler);
+  },
+  off: (event: string, handler: (arg: any) => void) => {
+    contextHandlers.get(event)?.delete(handler);
+  },
+  emit: (event: string, arg: any) => {
+    for (const handler of contextHandlers.get(event) ?? []) handler(arg);
+  },
+  routes: [] as Array<{ url: any; handler: (route: any) => Promise<void> }>,
+  route(url: any, handler: (route: any) => Promise<void>) {
+    this.routes.push({ url, handler });
+    return Promise.resolve();
+  },
+  unroute(url: any, handler: (route: any) => Promise<void>) {
+    this.routes = this.routes.filter((r) => r.handler !== handler);
+    return Promise.resolve();
+  },
+};
+
+function fakeRoute(request: any) {
+  return {
+    request: () => request,
+    fulfill: mock((_options: any) => Promise.resolve()),
+    abort: mock((_code?: string) => Promise.resolve()),
+    continue: mock((_options?: any) => Promise.resolve()),
+    fallback: mock(() => Promise.resolve()),
+    fetch: mock((_options?: any) => Promise.resolve({ headers: () => ({ "content-type": "text/html" }) })),
+  };
+}
+
+function fakeRequest(url: string, method = "GET", resourceType = "fetch", failure?: string) {
+  return {
+    url: () => url,
+    method: () => method,
+    resourceType: () => resourceType,
+    headers: () => ({ accept: "*/*" }),
+    failure: () => (failure ? { errorText: failure } : null),
+  };
+}
+
+function fakeResponse(request: any, status: number) {
+  return {
+    request: () => request,
+    url: () => request.url(),
+    status: () => status,
+    statusText: () => (status >= 400 ? "Error" : "OK"),
+    headers: () => ({ "content-type": "application/json" }),
+  };
+}
+
+const mockDevices: Record<string, any> = {
+  "iPhone 14": { viewport: { width: 390, height: 664 }, deviceScaleFactor: 3 },
+  "iPad Mini": { viewport: { width: 768, height: 1024 }, deviceScaleFactor: 2 },
+};
+
+let mockRefMap: Record<string, any> = {};
+const mockLocatorEvaluations: Array<{ selector: string; arg?: any }> = [];
+const mockLocatorCalls: Array<{ method: string; selector: string; options?: any }> = [];
+
 mock.module("agent-browser/dist/browser.js", () => ({
   BrowserManager: class {
     launch = mockBrowser.launch;
-    getPage() { return {}; }
-    getLocator() { return {}; }
+    getPage() { return { context: () => mockContext, viewportSize: () => ({ width: 1280, height: 720 }) }; }
+    getDevice(name: string) { return mockDevices[name]; }
+    getRefMap() { return mockRefMap; }
+    isRef(selector: string) { return /^(@|ref=)?e\d+$/.test(selector); }
+    clearDeviceMetricsOverride() { return Promise.resolve(); }
+    getLocator(selector: string) {
+      return {
+        scrollIntoViewIfNeeded: () => Promise.resolve(),
+        evaluateAll: (fn: any, arg?: any) => Promise.resolve(mockLocatorEvaluations.push({ selector, arg })),
+        boundingBox: (options?: any) => {
+          mockLocatorCalls.push({ method: "boundingBox", selector, options });
+          return Promise.resolve(
+            selector === "#banner" ? { x: 0, y: 0, width: 10, height: 10 } : { x: 100, y: 200, width: 80, height: 30 }
+          );
+        },
+        getAttribute: (name: string, options?: any) => {
+          mockLocatorCalls.push({ method: "getAttribute", selector, options });
+          return Promise.resolve(name === "type" && selector === "#password" ? "password" : null);
+        },
+      };
+    }
     close() { return Promise.resolve(); }
   },
 }));
 
+// Solid-colour PNG with an optional differently-coloured block
+function makePng(width: number, height: number, block?: { x: number; y: number; size: number }): Buffer {
+  const png = new PNG({ width, height });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const inBlock = block && x >= block.x && x < block.x + block.size && y >= block.y && y < block.y + block.size;
+      png.data[i] = inBlock ? 0 : 255;
+      png.data[i + 1] = inBlock ? 0 : 255;
+      png.data[i + 2] = 255;
+      png.data[i + 3] = 255;
+    }
+  }
+  return PNG.sync.write(png);
+}
+
+let mockScreenshotPng: Buffer | null = null;
+
 // Mock executeCommand
-const mockExecuteCommand = mock((cmd: any, _browser: any) => {
+let mockRecordingPath = "/tmp/test.webm";
+
+const executeCommandDefault = (cmd: any, _browser: any): Promise<any> => {
   switch (cmd.action) {
     case "navigate":
       return Promise.resolve({ success: true, data: { title: "Test Page", url: cmd.url } });
@@ -44,19 +151,32 @@ const mockExecuteCommand = mock((cmd: any, _browser: any) => {
       return Promise.resolve({ success: true, data: { text: "Hello World" } });
     case "isvisible":
       return Promise.resolve({ success: true, data: { visible: true } });
+    case "isenabled":
+      return Promise.resolve({ success: true, data: { enabled: false } });
+    case "ischecked":
+      return Promise.resolve({ success: true, data: { checked: true } });
+    case "count":
+      return Promise.resolve({ success: true, data: { count: 3 } });
+    case "getattribute":
+      return Promise.resolve({ success: true, data: { attribute: cmd.attribute, value: "/dashboard" } });
     case "title":
       return Promise.resolve({ success: true, data: { title: "Test Page" } });
     case "url":
       return Promise.resolve({ success: true, data: { url: "https://example.com" } });
     case "screenshot":
+      if (cmd.path) writeFileSync(cmd.path, mockScreenshotPng ?? "fake-png");
       return Promise.resolve({ success: true, data: { path: cmd.path } });
     case "device":
+      if (!mockDevices[cmd.device]) {
+        return Promise.resolve({ success: false, error: `Unknown device: ${cmd.device}` });
+      }
+      return Promise.resolve({ success: true, data: { applied: true } });
     case "viewport":
       return Promise.resolve({ success: true, data: { applied: true } });
     case "recording_start":
       return Promise.resolve({ success: true, data: { started: true, path: cmd.path } });
     case "recording_stop":
-      return Promise.resolve({ success: true, data: { path: "/tmp/test.webm", frames: 100 } });
+      return Promise.resolve({ success: true, data: { path: mockRecordingPath, frames: 100 } });
     case "tab_list":
       return Promise.resolve({ success: true, data: { tabs: [{ index: 0, url: "about:blank" }] } });
     case "tab_new":
@@ -65,23 +185,73 @@ const mockExecuteCommand = mock((cmd: any, _browser: any) => {
       return Promise.resolve({ success: true, data: { done: true } });
     case "close":
       return Promise.resolve({ success: true, data: { closed: true } });
+    case "cookies_get":
+      return Promise.resolve({ success: true, data: { cookies: [{ name: "sid", value: "abc", domain: "example.com", path: "/" }] } });
+    case "storage_get":
+      return Promise.resolve({
+        success: true,
+        data: { data: cmd.type === "local" ? { token: "t-123" } : { tab: "1", __agent_browser_profile__: "old" } },
+      });
     default:
       return Promise.resolve({ success: true, data: {} });
   }
-});
+};
+const mockExecuteCommand = mock(executeCommandDefault);
 
 mock.module("agent-browser/dist/actions.js", () => ({
   executeCommand: mockExecuteCommand,
 }));
 
 // Mock S3 client
+const s3Responses = (command: any): any => {
+  switch (command.constructor.name) {
+    case "CreateMultipartUploadCommand":
+      return { UploadId: "upload-1" };
+    case "UploadPartCommand":
+      return { ETag: `"etag-${command.params.PartNumber}"` };
+    default:
+      return {};
+  }
+};
+const mockS3Send = mock((command: any) => Promise.resolve(s3Responses(command)));
+const s3ClientConfigs: any[] = [];
+const s3Command = (name: string) =>
+  ({ [name]: class { constructor(public params: any) {} } })[name];
+
 mock.module("@aws-sdk/client-s3", () => ({
   S3Client: class {
-    send = mock(() => Promise.resolve());
-  },
-  PutObjectCommand: class {
-    constructor(public params: any) {}
+    constructor(config: any) {
+      s3ClientConfigs.push(config);
+    }
+    send = mockS3Send;
   },
+  PutObjectCommand: s3Command("PutObjectCommand"),
+  GetObjectCommand: s3Command("GetObjectCommand"),
+  CreateMultipartUploadCommand: s3Command("CreateMultipartUploadCommand"),
+  UploadPartCommand: s3Command("UploadPartCommand"),
+  CompleteMultipartUploadCommand: s3Command("CompleteMultipartUploadCommand"),
+  AbortMultipartUploadCommand: s3Command("AbortMultipartUploadCommand"),
+}));
+
+const mockGetSignedUrl = mock((_client: any, command: any, options: any) =>
+  Promise.resolve(`https://signed.example.com/${command.params.Key}?X-Amz-Expires=${options.expiresIn}`)
+);
+
+mock.module("@aws-sdk/s3-request-presigner", () => ({
+  getSignedUrl: mockGetSignedUrl,
+}));
+
+// Mock ffmpeg/ffprobe
+let mockVideoDuration = "12.5";
+const execFileDefault = (file: string, _args: string[], _opts: any, callback: Function) => {
+  callback(null, file === "ffprobe" ? `${mockVideoDuration}\n` : "", "");
+};
+const mockExecFile = mock(execFileDefault);
+// Each ffmpeg/ffprobe call as one line, e.g. "ffprobe -v error ... /tmp/test.webm"
+const execCommands = () => mockExecFile.mock.calls.map((c: any) => [c[0], ...c[1]].join(" "));
+
+mock.module("child_process", () => ({
+  execFile: mockExecFile,
 }));
 
 // Import after mocks
@@ -92,8 +262,12 @@ describe("agent-browser-plugin", () => {
   let registeredServices: Map<string, any>;
   let mockApi: any;
 
+  // The plugin's temp dir; emptied per test so artifact names don't pick up -2 suffixes
+  const pluginTempDir = join(tmpdir(), "openclaw", "agent-browser-plugin");
+
   beforeEach(() => {
     _testClearSessions();
+    rmSync(pluginTempDir, { recursive: true, force: true });
     registeredTools = new Map();
     registeredServices = new Map();
 
@@ -112,6 +286,21 @@ describe("agent-browser-plugin", () => {
 
     Object.values(mockBrowser).forEach((m) => m.mockClear?.());
     mockExecuteCommand.mockClear();
+    mockExecuteCommand.mockImplementation(executeCommandDefault);
+    mockS3Send.mockClear();
+    mockS3Send.mockImplementation((command: any) => Promise.resolve(s3Responses(command)));
+    mockGetSignedUrl.mockClear();
+    s3ClientConfigs.length = 0;
+    mockRecordingPath = "/tmp/test.webm";
+    mockExecFile.mockClear();
+    mockExecFile.mockImplementation(execFileDefault);
+    mockVideoDuration = "12.5";
+    contextHandlers.clear();
+    mockContext.routes = [];
+    mockScreenshotPng = null;
+    mockRefMap = {};
+    mockLocatorEvaluations.length = 0;
+    mockLocatorCalls.length = 0;
   });
 
   describe("registration", () => {
@@ -122,13 +311,16 @@ describe("agent-browser-plugin", () => {
         "ab_open", "ab_navigate", "ab_snapshot", "ab_click",
         "ab_fill", "ab_interact", "ab_query", "ab_screenshot",
         "ab_record_start", "ab_record_stop", "ab_tabs",
-        "ab_settings", "ab_close", "ab_advanced"
+        "ab_settings", "ab_close", "ab_advanced",
+        "ab_session_save", "ab_session_load", "ab_run", "ab_assert", "ab_wait", "ab_network", "ab_console", "ab_mock", "ab_visual_compare",
+        "ab_a11y_audit", "ab_screenshot_matrix", "ab_extract", "ab_fill_form", "ab_trace",
+        "ab_export_test", "ab_report", "ab_artifacts"
       ];
 
       for (const tool of expectedTools) {
         expect(registeredTools.has(tool)).toBe(true);
       }
-      expect(registeredTools.size).toBe(14);
+      expect(registeredTools.size).toBe(31);
     });
 
     it("registers cleanup service", () => {
@@ -188,6 +380,333 @@ describe("agent-browser-plugin", () => {
       );
       expect(result.content[0].text).toContain("@e1");
     });
+
+    it("returns only changes in diff mode", async () => {
+      register(mockApi);
+      const snapshotTool = registeredTools.get("ab_snapshot");
+      const tree = (lines: string[]) => Promise.resolve({ success: true, data: { snapshot: lines.join("\n") } });
+      const snapshot = async (params: any = {}) =>
+        (await snapshotTool.execute("id", { session: "snap-diff", mode: "diff", ...params })).content[0].text;
+
+      mockExecuteCommand.mockImplementationOnce(() => tree([
+        '- main:',
+        '  - button "Save" [ref=e1]',
+        '  - checkbox "Remember me" [ref=e2]',
+        '  - status "Loading" [ref=e3]',
+      ]));
+      expect(await snapshot()).toContain("No previous snapshot");
+
+      mockExecuteCommand.mockImplementationOnce(() => tree([
+        '- alert "Saved!" [ref=e1]',
+        '- main:',
+        '  - button "Save" [ref=e2]',
+        '  - checkbox "Remember me" [ref=e3] [checked]',
+      ]));
+      const diff = await snapshot();
+      expect(diff).toContain("[diff] 1 added, 1 removed, 1 changed");
+      expect(diff).toContain('+ alert "Saved!" [ref=e4]');
+      expect(diff).toContain('- status "Loading"');
+      expect(diff).toContain('~ checkbox "Remember me" [ref=e2] [checked]  (was: checkbox "Remember me")');
+      expect(diff).not.toContain('button "Save"');
+
+      mockExecuteCommand.mockImplementationOnce(() => tree([
+        '- alert "Saved!" [ref=e1]',
+        '- main:',
+        '  - button "Save" [ref=e2]',
+        '  - checkbox "Remember me" [ref=e3] [checked]',
+      ]));
+      expect(await snapshot()).toBe("[diff] No changes since previous snapshot.");
+
+      mockExecuteCommand.mockImplementationOnce(() => tree(['- button "Save" [ref=e1]']));
+      expect(await snapshot({ interactive: false })).toContain("No previous snapshot with these options");
+    });
+
+    it("keeps the refs the agent already holds across diffs", async () => {
+      register(mockApi);
+      const snapshotTool = registeredTools.get("ab_snapshot");
+      const tree = (lines: string[]) => Promise.resolve({ success: true, data: { snapshot: lines.join("\n") } });
+      const snapshot = async (params: any = {}) =>
+        (await snapshotTool.execute("id", { session: "snap-carry", mode: "diff", ...params })).content[0].text;
+
+      mockExecuteCommand.mockImplementationOnce(() => tree(['- button "Save" [ref=e1]', '- link "Help" [ref=e2]']));
+      await snapshot();
+
+      mockRefMap = {
+        e1: { role: "dialog", name: "Confirm", nth: 0 },
+        e2: { role: "button", name: "OK", nth: 0 },
+        e3: { role: "button", name: "Save", nth: 0 },
+      };
+      mockExecuteCommand.mockImplementationOnce(() =>
+        tree(['- dialog "Confirm" [ref=e1]:', '  - button "OK" [ref=e2]', '- button "Save" [ref=e3]'])
+      );
+      const diff = await snapshot();
+      expect(diff).toContain('+ dialog "Confirm" [ref=e3]:');
+      expect(diff).toContain('+ button "OK" [ref=e4]');
+      expect(diff).toContain('- link "Help"');
+
+      // @e1 is still the Save button the agent saw first, even though the browser now calls it e3
+      await registeredTools.get("ab_click").execute("id", { session: "snap-carry", selector: "@e1" });
+      const click = mockExecuteCommand.mock.calls.map((c: any) => c[0]).filter((c: any) => c.action === "click").at(-1);
+      expect(click.selector).toBe("@e3");
+
+      const paged = await snapshotTool.execute("id", { session: "snap-carry", cursor: 0 });
+      expect(paged.content[0].text).toContain('button "Save" [ref=e1]');
+    });
+
+    it("truncates long diffs to maxNodes", async () => {
+      register(mockApi);
+      const snapshotTool = registeredTools.get("ab_snapshot");
+      const tree = (count: number) => Promise.resolve({
+        success: true,
+        data: { snapshot: Array.from({ length: count }, (_, i) => `- button "B${i}" [ref=e${i + 1}]`).join("\n") },
+      });
+
+      mockExecuteCommand.mockImplementationOnce(() => tree(1));
+      await snapshotTool.execute("id", { session: "snap-long", mode: "diff" });
+      mockExecuteCommand.mockImplementationOnce(() => tree(30));
+      const text = (await snapshotTool.execute("id", { session: "snap-long", mode: "diff", maxNodes: 5 })).content[0].text;
+
+      expect(text).toContain("[diff] 29 added, 0 removed, 0 changed");
+      expect(text.split("\n").filter((line: string) => line.startsWith("+ "))).toHaveLength(5);
+      expect(text).toContain("[truncated] Showing 5 of 29 changes");
+    });
+
+    it("scopes, prunes and pages large trees", async () => {
+      register(mockApi);
+      const snapshotTool = registeredTools.get("ab_snapshot");
+      const snapshot = async (params: any) =>
+        (await snapshotTool.execute("id", { session: "snap-size", ...params })).content[0].text;
+      const rows = Array.from({ length: 5 }, (_, i) => `  - row "Row ${i + 1}" [ref=e${i + 3}]`);
+      mockRefMap = { e4: { role: "row", name: "Row 2", nth: 0 } };
+      mockExecuteCommand.mockImplementationOnce(() => Promise.resolve({
+        success: true,
+        data: { snapshot: ['- navigation "Main":', '  - link "Home" [ref=e1]', '- table "Orders":', ...rows, '- contentinfo:', '  - link "Terms" [ref=e2]'].join("\n") },
+      }));
+
+      const first = await snapshot({ interactive: false, maxDepth: 3, exclude: ["nav", "footer"], maxNodes: 3 });
+      expect(mockExecuteCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "snapshot", interactive: false, maxDepth: 3 }),
+        expect.anything()
+      );
+      expect(first).not.toContain("Home");
+      expect(first).toContain('row "Row 2"');
+      expect(first).not.toContain('row "Row 3"');
+      expect(first).toContain("[truncated] Showing lines 1-3 of 6. More available: call ab_snapshot with cursor: 3");
+
+      const calls = mockExecuteCommand.mock.calls.length;
+      const rest = await snapshot({ cursor: 3, maxChars: 1000 });
+      expect(mockExecuteCommand.mock.calls.length).toBe(calls);
+      expect(rest).toContain('row "Row 5"');
+      expect(rest).not.toContain("Terms");
+      expect(rest).not.toContain("[truncated]");
+
+      await snapshot({ selector: "@e4" });
+      expect(mockLocatorEvaluations).toEqual([{ selector: "@e4", arg: "data-ab-snapshot-scope" }]);
+      expect(mockExecuteCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "snapshot", interactive: true, selector: "[data-ab-snapshot-scope]" }),
+        expect.anything()
+      );
+    });
+  });
+
+  describe("ab_fill_form", () => {
+    it("fills fields by kind, submits and reports unmatched ones", async () => {
+      register(mockApi);
+      const fillFormTool = registeredTools.get("ab_fill_form");
+      mockExecuteCommand.mockImplementationOnce(() => Promise.resolve({
+        success: true,
+        data: {
+          result: [
+            { key: "Email", by: "label", kind: "text", type: "email", marker: "0" },
+            { key: "Phone", by: "placeholder", kind: "text", type: "tel", marker: "1" },
+            { key: "Country", by: "name", kind: "select", type: "", marker: "2" },
+            { key: "Plan", by: "group", kind: "radio", type: "radio", options: [
+              { marker: "3", value: "free", label: "Free" },
+              { marker: "4", value: "pro", label: "Pro" },
+            ] },
+            { key: "Accept terms", by: "label", kind: "checkbox", type: "checkbox", marker: "5" },
+            { key: "Birthday", by: "label", kind: "date", type: "date", marker: "6" },
+            { key: "Nickname", unmatched: true },
+            { key: "Name", ambiguous: 2 },
+          ],
+        },
+      }));
+      // Exactly one exact "Email" label; "Phone" falls back to the tagged element (default count is 3)
+      mockExecuteCommand.mockImplementationOnce(() => Promise.resolve({ success: true, data: { count: 1 } }));
+
+      const result = JSON.parse((await fillFormTool.execute("id", {
+        session: "fill-form",
+        fields: {
+          Email: "qa@example.com", Phone: 5551234, Country: "Canada", Plan: "Pro",
+          "Accept terms": false, Birthday: "March 5, 2024", Nickname: "q", Name: "x",
+        },
+        submit: "#go",
+      })).content[0].text);
+
+      const calls = mockExecuteCommand.mock.calls.map((c: any) => c[0]);
+      expect(calls[0].script).toContain('"fields":["Email","Phone","Country","Plan","Accept terms","Birthday","Nickname","Name"]');
+      expect(calls).toContainEqual(expect.objectContaining({ action: "fill", selector: 'internal:label="Email"s', value: "qa@example.com" }));
+      expect(calls).toContainEqual(expect.objectContaining({ action: "count", selector: 'internal:attr=[placeholder="Phone"s]' }));
+      expect(calls).toContainEqual(expect.objectContaining({ action: "fill", selector: '[data-ab-fill="1"]', value: "5551234" }));
+      expect(calls.some((c: any) => c.action === "getbylabel" || c.action === "getbyplaceholder")).toBe(false);
+      expect(calls).toContainEqual(expect.objectContaining({ action: "select", selector: '[data-ab-fill="2"]', values: ["Canada"] }));
+      expect(calls).toContainEqual(expect.objectContaining({ action: "check", selector: '[data-ab-fill="4"]' }));
+      expect(calls).toContainEqual(expect.objectContaining({ action: "uncheck", selector: '[data-ab-fill="5"]' }));
+      expect(calls).toContainEqual(expect.objectContaining({ action: "fill", selector: '[data-ab-fill="6"]', value: "2024-03-05" }));
+      expect(calls).toContainEqual(expect.objectContaining({ action: "click", selector: "#go" }));
+      expect(calls.at(-1).script).toContain("removeAttribute('data-ab-fill')");
+
+      expect(result).toMatchObject({
+        complete: false,
+        unmatched: ["Nickname"],
+        ambiguous: [{ field: "Name", matches: 2 }],
+        submitted: true,
+        error: "Not filled: Nickname (no match), Name (2 matches)",
+      });
+      expect(result.filled).toHaveLength(6);
+    });
+
+    it("looks up labels within the form it was scoped to", async () => {
+      register(mockApi);
+      mockExecuteCommand.mockImplementationOnce(() => Promise.resolve({
+        success: true,
+        data: { result: [{ key: "Email", by: "label", kind: "text", type: "email", marker: "0" }] },
+      }));
+      mockExecuteCommand.mockImplementationOnce(() => Promise.resolve({ success: true, data: { count: 1 } }));
+
+      await registeredTools.get("ab_fill_form").execute("id", { session: "fill-scope", selector: "#signup", fields: { Email: "qa@example.com" } });
+
+      const calls = mockExecuteCommand.mock.calls.map((c: any) => c[0]);
+      expect(calls).toContainEqual(expect.objectContaining({ action: "count", selector: '#signup >> internal:label="Email"s' }));
+      expect(calls).toContainEqual(expect.objectContaining({ action: "fill", selector: '#signup >> internal:label="Email"s', value: "qa@example.com" }));
+    });
+
+    it("reports missing radio options as failures", async () => {
+      register(mockApi);
+      const fillFormTool = registeredTools.get("ab_fill_form");
+      mockExecuteCommand.mockImplementationOnce(() => Promise.resolve({
+        success: true,
+        data: { result: [{ key: "Plan", by: "group", kind: "radio", type: "radio", options: [{ marker: "0", value: "free", label: "Free" }] }] },
+      }));
+
+      const result = JSON.parse((await fillFormTool.execute("id", { session: "fill-form-radio", fields: { Plan: "Enterprise" } })).content[0].text);
+      expect(result.complete).toBe(false);
+      expect(result.failed[0]).toEqual({ field: "Plan", error: 'No option "Enterprise" (available: Free)' });
+    });
+  });
+
+  describe("semantic locators", () => {
+    const lastCall = (action: string) =>
+      mockExecuteCommand.mock.calls.map((c: any) => c[0]).filter((c: any) => c.action === action).at(-1);
+
+    it("turns structured locators into Playwright selectors", async () => {
+      register(mockApi);
+      const clickTool = registeredTools.get("ab_click");
+      const fillTool = registeredTools.get("ab_fill");
+      const interactTool = registeredTools.get("ab_interact");
+
+      await clickTool.execute("id", { session: "loc", selector: { role: "button", name: "Save" } });
+      expect(lastCall("click").selector).toBe('internal:role=button[name="Save"i]');
+
+      await clickTool.execute("id", { session: "loc", selector: { role: "link", name: 'Say "hi"', exact: true, nth: 1 } });
+      expect(lastCall("click").selector).toBe('internal:role=link[name="Say \\"hi\\""s] >> nth=1');
+
+      await clickTool.execute("id", { session: "loc", selector: { text: "Sign in", exact: true } });
+      expect(lastCall("click").selector).toBe('internal:text="Sign in"s');
+
+      await fillTool.execute("id", { session: "loc", selector: { label: "Email" }, value: "qa@example.com" });
+      expect(lastCall("fill").selector).toBe('internal:label="Email"i');
+
+      await fillTool.execute("id", { session: "loc", selector: { placeholder: "Search" }, value: "shoes" });
+      expect(lastCall("fill").selector).toBe('internal:attr=[placeholder="Search"i]');
+
+      await interactTool.execute("id", { session: "loc", action: "drag", selector: { testId: "card-1" }, value: { testId: "lane-done" } });
+      expect(lastCall("drag")).toMatchObject({
+        source: 'internal:testid=[data-testid="card-1"s]',
+        target: 'internal:testid=[data-testid="lane-done"s]',
+      });
+
+      await interactTool.execute("id", { session: "loc", action: "type", selector: "#q", value: "plain text" });
+      expect(lastCall("type").text).toBe("plain text");
+    });
+
+    it("rejects unknown locator shapes and works inside ab_run", async () => {
+      register(mockApi);
+      const clickTool = registeredTools.get("ab_click");
+      const runTool = registeredTools.get("ab_run");
+
+      const bad = await clickTool.execute("id", { session: "loc-run", selector: { css: "#x" } });
+      expect(JSON.parse(bad.content[0].text).error).toContain("Invalid locator");
+
+      const result = await runTool.execute("id", {
+        session: "loc-run",
+        steps: [{ tool: "query", params: { action: "gettext", selector: { role: "heading", name: "Welcome" } } }],
+      });
+      expect(JSON.parse(result.content[0].text).passed).toBe(true);
+      expect(lastCall("gettext").selector).toBe('internal:role=heading[name="Welcome"i]');
+    });
+
+    it("tags locator scopes for in-page tools", async () => {
+      register(mockApi);
+      const snapshotTool = registeredTools.get("ab_snapshot");
+
+      await snapshotTool.execute("id", { session: "loc-scope", selector: { role: "main" } });
+      expect(mockLocatorEvaluations).toEqual([{ selector: "internal:role=main", arg: "data-ab-snapshot-scope" }]);
+      expect(lastCall("snapshot").selector).toBe("[data-ab-snapshot-scope]");
+    });
+  });
+
+  describe("stale refs", () => {
+    const setup = async () => {
+      register(mockApi);
+      mockRefMap = { e1: { selector: "getByRole('button', { name: \"Save\", exact: true })", role: "button", name: "Save", nth: 0 } };
+      await registeredTools.get("ab_snapshot").execute("id", { session: "stale" });
+      return registeredTools.get("ab_click");
+    };
+    const clicked = () => mockExecuteCommand.mock.calls.map((c: any) => c[0]).filter((c: any) => c.action === "click").at(-1);
+    const once = (data: any) => mockExecuteCommand.mockImplementationOnce(() => Promise.resolve({ success: true, data }));
+
+    it("passes through refs that are still valid", async () => {
+      const clickTool = await setup();
+      const result = await clickTool.execute("id", { session: "stale", selector: "@e1" });
+
+      expect(clicked().selector).toBe("@e1");
+      expect(result.content).toHaveLength(1);
+    });
+
+    it("re-resolves by role and name after navigation", async () => {
+      const clickTool = await setup();
+      once({ url: "https://example.com/next" });
+      once({ count: 1 });
+
+      const result = await clickTool.execute("id", { session: "stale", selector: "@e1" });
+      expect(clicked().selector).toBe('internal:role=button[name="Save"s]');
+      expect(result.content[1].text).toContain("[ref] @e1 was stale (page navigated since snapshot 1");
+    });
+
+    it("re-resolves refs renumbered by a later internal snapshot", async () => {
+      const clickTool = await setup();
+      mockRefMap = { e1: { role: "link", name: "Home", nth: 0 } };
+
+      await clickTool.execute("id", { session: "stale", selector: "@e1" });
+      expect(clicked().selector).toBe('internal:role=button[name="Save"s] >> nth=0');
+    });
+
+    it("returns an error with a fresh snapshot when the element is gone", async () => {
+      const clickTool = await setup();
+      const calls = mockExecuteCommand.mock.calls.length;
+      once({ url: "https://example.com" });
+      once({ count: 0 });
+
+      const result = JSON.parse((await clickTool.execute("id", { session: "stale", selector: "@e1" })).content[0].text);
+      expect(result.error).toBe('Ref @e1 is stale: button "Save" is no longer on the page. Re-run ab_snapshot and use the new refs.');
+      expect(result).toMatchObject({ staleRef: "@e1", generation: 2 });
+      expect(result.snapshot).toContain("@e1 button 'Submit'");
+      expect(mockExecuteCommand.mock.calls.slice(calls).some((c: any) => c[0].action === "click")).toBe(false);
+
+      const unknown = JSON.parse((await clickTool.execute("id", { session: "stale", selector: "@e9" })).content[0].text);
+      expect(unknown.error).toContain("Ref @e9 is stale: not in the latest snapshot (generation 2)");
+    });
   });
 
   describe("ab_interact", () => {
@@ -221,6 +740,23 @@ describe("agent-browser-plugin", () => {
     });
   });
 
+  describe("ab_interact command shapes", () => {
+    const lastCall = (action: string) =>
+      mockExecuteCommand.mock.calls.map((c: any) => c[0]).filter((c: any) => c.action === action).at(-1);
+
+    it("sends drag as source/target", async () => {
+      register(mockApi);
+      await registeredTools.get("ab_interact").execute("id", { session: "shape", action: "drag", selector: "#card", value: "#lane" });
+      expect(lastCall("drag")).toEqual({ id: expect.any(String), action: "drag", source: "#card", target: "#lane" });
+    });
+
+    it("sends select options as a values list", async () => {
+      register(mockApi);
+      await registeredTools.get("ab_interact").execute("id", { session: "shape", action: "select", selector: "#size", value: "M" });
+      expect(lastCall("select")).toEqual({ id: expect.any(String), action: "select", selector: "#size", values: ["M"] });
+    });
+  });
+
   describe("ab_query", () => {
     it("queries page info", async () => {
       register(mockApi);
@@ -245,6 +781,208 @@ describe("agent-browser-plugin", () => {
     });
   });
 
+  describe("ab_extract", () => {
+    const page = (data: any[], hasNext: boolean, signature: string) =>
+      Promise.resolve({ success: true, data: { result: { type: "table", columns: ["Name", "Price"], data, hasNext, signature } } });
+
+    it("extracts tables and follows pagination", async () => {
+      register(mockApi);
+      const extractTool = registeredTools.get("ab_extract");
+      mockExecuteCommand
+        .mockImplementationOnce(() => page([{ Name: "Widget", Price: 1200.5 }], true, "page 1"))
+        .mockImplementationOnce(() => Promise.resolve({ success: true, data: { clicked: true } }))
+        .mockImplementationOnce(() => page([{ Name: "Gadget", Price: 45 }], false, "page 2"));
+
+      const result = JSON.parse((await extractTool.execute("id", {
+        session: "extract",
+        selector: "#orders",
+        next: "a.next",
+        schema: { item: "tr", fields: { name: "td:nth-child(1)" } },
+      })).content[0].text);
+
+      expect(result).toEqual({
+        type: "table",
+        count: 2,
+        pages: 2,
+        columns: ["Name", "Price"],
+        data: [{ Name: "Widget", Price: 1200.5 }, { Name: "Gadget", Price: 45 }],
+      });
+      const evaluate = mockExecuteCommand.mock.calls.find((c: any) => c[0].action === "evaluate")![0];
+      expect(evaluate.script).toContain('"scope":"#orders"');
+      expect(evaluate.script).toContain('"fields":{"name":"td:nth-child(1)"}');
+      expect(mockExecuteCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "click", selector: "a.next" }),
+        expect.anything()
+      );
+    });
+
+    it("stops at maxPages, applies the limit and reports errors", async () => {
+      register(mockApi);
+      const extractTool = registeredTools.get("ab_extract");
+      mockExecuteCommand.mockImplementationOnce(() => page([{ Name: "A" }, { Name: "B" }, { Name: "C" }], true, "page 1"));
+
+      const result = JSON.parse((await extractTool.execute("id", {
+        session: "extract-limit", next: "a.next", maxPages: 1, limit: 2,
+      })).content[0].text);
+      expect(result).toMatchObject({ count: 2, pages: 1, truncated: true, morePages: true });
+
+      mockExecuteCommand.mockImplementationOnce(() =>
+        Promise.resolve({ success: false, error: "No table, form or list found on the page" })
+      );
+      const failed = await extractTool.execute("id", { session: "extract-limit" });
+      expect(JSON.parse(failed.content[0].text).error).toContain("No table, form or list");
+    });
+
+    it("only turns untyped cells into numbers when nothing is lost", async () => {
+      register(mockApi);
+      await registeredTools.get("ab_extract").execute("id", { session: "extract-coerce" });
+      // Pull the in-page helpers out of the evaluated script and run them here
+      const script: string = mockExecuteCommand.mock.calls.find((c: any) => c[0].action === "evaluate")![0].script;
+      const helpers = script.slice(script.indexOf("function clean"), script.indexOf("function visible"));
+      const coerce = new Function(`${helpers}; return coerce;`)();
+
+      expect(coerce("02134")).toBe("02134");
+      expect(coerce("007")).toBe("007");
+      expect(coerce("12345678901234567890")).toBe("12345678901234567890");
+      expect(coerce("129.50")).toBe(129.5);
+      expect(coerce("$129.50")).toBe(129.5);
+      expect(coerce("1,200")).toBe(1200);
+      expect(coerce("0.5")).toBe(0.5);
+      expect(coerce("42")).toBe(42);
+      // An explicit number type still converts
+      expect(coerce("02134", "number")).toBe(2134);
+      expect(coerce("02134", "string")).toBe("02134");
+    });
+  });
+
+  describe("ab_assert", () => {
+    it("returns structured verdicts for typed matchers", async () => {
+      register(mockApi);
+      const assertTool = registeredTools.get("ab_assert");
+      const verdict = async (params: any) =>
+        JSON.parse((await assertTool.execute("id", { session: "assert-test", ...params })).content[0].text);
+
+      expect(await verdict({ type: "text_contains", selector: "h1", expected: "World" })).toMatchObject({
+        passed: true, expected: "World", actual: "Hello World",
+      });
+      expect(await verdict({ type: "enabled", selector: "#save" })).toMatchObject({
+        passed: false, expected: true, actual: false,
+      });
+      expect(await verdict({ type: "url_matches", expected: "example\\.com$" })).toMatchObject({ passed: true });
+      expect(await verdict({ type: "count", selector: "li", expected: 3 })).toMatchObject({ passed: true, actual: 3 });
+      expect(await verdict({ type: "attribute", selector: "a", attribute: "href", expected: "/login" })).toMatchObject({
+        passed: false, expected: "/login", actual: "/dashboard",
+      });
+      expect(await verdict({ type: "checked", selector: "#tos", not: true })).toMatchObject({ passed: false });
+    });
+
+    it("retries until the timeout elapses", async () => {
+      register(mockApi);
+      const assertTool = registeredTools.get("ab_assert");
+      mockExecuteCommand.mockImplementationOnce(() =>
+        Promise.resolve({ success: true, data: { text: "Loading..." } })
+      );
+
+      const result = await assertTool.execute("id", {
+        session: "assert-retry",
+        type: "text_equals",
+        selector: "h1",
+        expected: "Hello World",
+        timeout: 1000,
+      });
+
+      const verdict = JSON.parse(result.content[0].text);
+      expect(verdict.passed).toBe(true);
+      expect(verdict.attempts).toBe(2);
+    });
+
+    it("reports action errors as failed verdicts", async () => {
+      register(mockApi);
+      const assertTool = registeredTools.get("ab_assert");
+      mockExecuteCommand.mockImplementationOnce(() =>
+        Promise.resolve({ success: false, error: "Element not found" })
+      );
+
+      const result = await assertTool.execute("id", { session: "assert-err", type: "visible", selector: "#gone" });
+
+      const verdict = JSON.parse(result.content[0].text);
+      expect(verdict).toMatchObject({ passed: false, actual: null });
+      expect(verdict.message).toContain("Element not found");
+    });
+  });
+
+  describe("ab_wait", () => {
+    it("polls until an element becomes visible", async () => {
+      register(mockApi);
+      const waitTool = registeredTools.get("ab_wait");
+      mockExecuteCommand.mockImplementationOnce(() =>
+        Promise.resolve({ success: true, data: { visible: false } })
+      );
+
+      const result = await waitTool.execute("id", { session: "wait-el", for: "selector", selector: "@e3", timeout: 1000 });
+
+      expect(JSON.parse(result.content[0].text)).toMatchObject({ waited: true, for: "selector" });
+      const visibilityChecks = mockExecuteCommand.mock.calls.filter((c) => c[0].action === "isvisible");
+      expect(visibilityChecks).toHaveLength(2);
+    });
+
+    it("bounds stable-layout lookups by the remaining timeout", async () => {
+      register(mockApi);
+
+      await registeredTools.get("ab_wait").execute("id", { session: "wait-stable", for: "stable", selector: "#card", timeout: 1500 });
+
+      const timeouts = mockLocatorCalls.filter((c) => c.method === "boundingBox").map((c) => c.options?.timeout);
+      expect(timeouts.length).toBeGreaterThanOrEqual(3);
+      expect(timeouts.every((t) => t > 0 && t <= 1500)).toBe(true);
+    });
+
+    it("maps text, url and network idle waits to native actions", async () => {
+      register(mockApi);
+      const waitTool = registeredTools.get("ab_wait");
+
+      await waitTool.execute("id", { session: "wait-native", for: "text", text: "Saved", timeout: 2000 });
+      await waitTool.execute("id", { session: "wait-native", for: "url", url: "**/dashboard" });
+      await waitTool.execute("id", { session: "wait-native", for: "url", url: "/orders\\/\\d+$/" });
+      await waitTool.execute("id", { session: "wait-native", for: "networkidle" });
+
+      expect(mockExecuteCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "waitforfunction", expression: expect.stringContaining('"Saved"'), timeout: 2000 }),
+        expect.anything()
+      );
+      expect(mockExecuteCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "waitforurl", url: "**/dashboard", timeout: 10000 }),
+        expect.anything()
+      );
+      expect(mockExecuteCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "waitforfunction", expression: expect.stringContaining("location.href") }),
+        expect.anything()
+      );
+      expect(mockExecuteCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "waitforloadstate", state: "networkidle" }),
+        expect.anything()
+      );
+    });
+
+    it("returns diagnostics when the wait fails", async () => {
+      register(mockApi);
+      const waitTool = registeredTools.get("ab_wait");
+      mockExecuteCommand.mockImplementationOnce(() =>
+        Promise.resolve({ success: false, error: "Timeout 500ms exceeded" })
+      );
+
+      const result = await waitTool.execute("id", { session: "wait-fail", for: "function", expression: "window.ready", timeout: 500 });
+
+      expect(JSON.parse(result.content[0].text)).toMatchObject({
+        waited: false,
+        for: "function",
+        expression: "window.ready",
+        timeoutMs: 500,
+        error: "Timeout 500ms exceeded",
+        diagnostics: { url: "https://example.com", title: "Test Page" },
+      });
+    });
+  });
+
   describe("ab_screenshot", () => {
     it("takes screenshot with device emulation", async () => {
       register(mockApi);
@@ -273,57 +1011,778 @@ describe("agent-browser-plugin", () => {
       const text = result.content[0].text;
       expect(text).toContain("ss-test-mobile-view.png");
     });
-  });
 
-  describe("ab_tabs", () => {
-    it("manages tabs", async () => {
+    it("captures a single element with padding", async () => {
       register(mockApi);
-      const openTool = registeredTools.get("ab_open");
-      const tabsTool = registeredTools.get("ab_tabs");
+      const screenshotTool = registeredTools.get("ab_screenshot");
+      mockScreenshotPng = makePng(400, 300);
 
-      await openTool.execute("id", { session: "tabs-test", url: "https://example.com" });
+      const result = await screenshotTool.execute("id", { session: "ss-el", label: "card", selector: "#card", padding: 10 });
 
-      // List tabs
-      await tabsTool.execute("id", { session: "tabs-test", action: "list" });
+      const localPath = result.content[0].text.match(/saved locally: (\S+)/)[1];
+      const png = PNG.sync.read(readFileSync(localPath));
+      expect([png.width, png.height]).toEqual([100, 50]);
       expect(mockExecuteCommand).toHaveBeenCalledWith(
-        expect.objectContaining({ action: "tab_list" }),
+        expect.objectContaining({ action: "screenshot", fullPage: true }),
         expect.anything()
       );
 
-      // New tab
-      await tabsTool.execute("id", { session: "tabs-test", action: "new", url: "https://google.com" });
+      await screenshotTool.execute("id", { session: "ss-el", label: "card-tight", selector: "@e3" });
       expect(mockExecuteCommand).toHaveBeenCalledWith(
-        expect.objectContaining({ action: "tab_new", url: "https://google.com" }),
+        expect.objectContaining({ action: "screenshot", selector: "@e3" }),
         expect.anything()
       );
     });
-  });
 
-  describe("ab_settings", () => {
-    it("sets viewport and device", async () => {
+    it("annotates refs from the last snapshot", async () => {
       register(mockApi);
-      const openTool = registeredTools.get("ab_open");
-      const settingsTool = registeredTools.get("ab_settings");
+      const screenshotTool = registeredTools.get("ab_screenshot");
 
-      await openTool.execute("id", { session: "settings-test", url: "https://example.com" });
+      const missing = await screenshotTool.execute("id", { session: "ss-ann", annotate: true });
+      expect(JSON.parse(missing.content[0].text).error).toContain("ab_snapshot");
 
-      // Viewport
-      await settingsTool.execute("id", { session: "settings-test", action: "viewport", width: 375, height: 667 });
-      expect(mockExecuteCommand).toHaveBeenCalledWith(
-        expect.objectContaining({ action: "viewport", width: 375, height: 667 }),
-        expect.anything()
-      );
+      mockRefMap = { e1: { role: "button", name: "Submit" }, e2: { role: "textbox", name: "" } };
+      const result = await screenshotTool.execute("id", { session: "ss-ann", label: "refs", annotate: true });
 
-      // Device
-      await settingsTool.execute("id", { session: "settings-test", action: "device", device: "Pixel 5" });
-      expect(mockExecuteCommand).toHaveBeenCalledWith(
-        expect.objectContaining({ action: "device", device: "Pixel 5" }),
-        expect.anything()
+      const text = result.content[0].text;
+      expect(text).toContain('[1] @e1 button "Submit"');
+      expect(text).toContain("[2] @e2 textbox");
+      const scripts = mockExecuteCommand.mock.calls
+        .filter((c: any) => c[0].action === "evaluate")
+        .map((c: any) => c[0].script);
+      expect(scripts.some((script: string) => script.includes('"number":2'))).toBe(true);
+      expect(scripts.at(-1)).toContain("remove()");
+    });
+
+    it("returns an error instead of cropping or uploading when the capture fails", async () => {
+      mockApi.config.storage = { backend: "local", local: { dir: mkdtempSync(join(tmpdir(), "ab-store-")) } };
+      register(mockApi);
+      const screenshotTool = registeredTools.get("ab_screenshot");
+      mockExecuteCommand.mockImplementation((cmd: any, browser: any) =>
+        cmd.action === "screenshot"
+          ? Promise.resolve({ success: false, error: "Target page has been closed" })
+          : executeCommandDefault(cmd, browser)
       );
+
+      const result = await screenshotTool.execute("id", { session: "ss-fail", label: "card", selector: "#card", padding: 10 });
+
+      expect(JSON.parse(result.content[0].text)).toEqual({ error: "Target page has been closed" });
+      const artifacts = JSON.parse((await registeredTools.get("ab_artifacts").execute("id", { session: "ss-fail" })).content[0].text);
+      expect(artifacts.total).toBe(0);
     });
   });
 
-  describe("ab_advanced", () => {
+  describe("artifact storage", () => {
+    it("copies screenshots into the local backend directory", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "ab-store-"));
+      mockApi.config.storage = {
+        backend: "local",
+        prefix: "qa",
+        local: { dir, baseUrl: "https://artifacts.example.com/" },
+      };
+      register(mockApi);
+      const screenshotTool = registeredTools.get("ab_screenshot");
+
+      const result = await screenshotTool.execute("id", { session: "local-store", label: "home" });
+
+      const text = result.content[0].text;
+      expect(text).toContain("![home](https://artifacts.example.com/qa/local-store-home.png)");
+      expect(existsSync(join(dir, "qa", "local-store-home.png"))).toBe(true);
+      expect(readFileSync(join(dir, "qa", "local-store-home.png"), "utf8")).toBe("fake-png");
+    });
+
+    it("uploads to a custom S3 endpoint with path-style URLs", async () => {
+      mockApi.config.storage = {
+        backend: "s3",
+        s3: { bucket: "qa-artifacts", region: "eu-west-1", endpoint: "http://localhost:9000", forcePathStyle: true },
+      };
+      register(mockApi);
+      const screenshotTool = registeredTools.get("ab_screenshot");
+
+      const result = await screenshotTool.execute("id", { session: "s3-store", label: "home" });
+
+      expect(s3ClientConfigs[0]).toMatchObject({
+        region: "eu-west-1",
+        endpoint: "http://localhost:9000",
+        forcePathStyle: true,
+      });
+      expect(mockS3Send).toHaveBeenCalledTimes(1);
+      expect(mockS3Send.mock.calls[0][0].params).toMatchObject({
+        Bucket: "qa-artifacts",
+        Key: "agent-browser/s3-store-home.png",
+        ContentType: "image/png",
+      });
+      expect(result.content[0].text).toContain(
+        "http://localhost:9000/qa-artifacts/agent-browser/s3-store-home.png"
+      );
+    });
+
+    it("returns local paths when no backend is configured", async () => {
+      register(mockApi);
+      const screenshotTool = registeredTools.get("ab_screenshot");
+
+      const result = await screenshotTool.execute("id", { session: "no-store", label: "home" });
+
+      expect(mockS3Send).not.toHaveBeenCalled();
+      expect(result.content[0].text).toContain("Artifact storage not configured");
+    });
+
+    it("retries transient upload failures with backoff", async () => {
+      mockApi.config.storage = { backend: "s3", s3: { bucket: "qa" }, upload: { retryDelayMs: 1 } };
+      register(mockApi);
+      const slowDown = Object.assign(new Error("SlowDown"), { $metadata: { httpStatusCode: 503 } });
+      mockS3Send.mockImplementationOnce(() => Promise.reject(slowDown));
+      mockS3Send.mockImplementationOnce(() => Promise.reject(new Error("socket hang up")));
+
+      const result = await registeredTools.get("ab_screenshot").execute("id", { session: "retry", label: "home" });
+
+      expect(mockS3Send).toHaveBeenCalledTimes(3);
+      expect(result.content[0].text).toContain("https://qa.s3.us-east-1.amazonaws.com/agent-browser/retry-home.png");
+    });
+
+    it("gives up immediately on permission errors", async () => {
+      mockApi.config.storage = { backend: "s3", s3: { bucket: "qa" }, upload: { retryDelayMs: 1 } };
+      register(mockApi);
+      const denied = Object.assign(new Error("Access Denied"), { $metadata: { httpStatusCode: 403 } });
+      mockS3Send.mockImplementation(() => Promise.reject(denied));
+
+      const result = await registeredTools.get("ab_screenshot").execute("id", { session: "denied", label: "home" });
+
+      expect(mockS3Send).toHaveBeenCalledTimes(1);
+      const error = "Upload of agent-browser/denied-home.png failed after 1 attempt: Access Denied";
+      expect(result.content[0].text).toContain(`Screenshot saved locally: ${join(pluginTempDir, "denied-home.png")}`);
+      expect(result.content[0].text).toContain(`Upload failed (${error})`);
+      // Still registered, with the failure instead of a URL
+      const listed = JSON.parse((await registeredTools.get("ab_artifacts").execute("id", { session: "denied" })).content[0].text);
+      expect(listed.artifacts[0]).toMatchObject({ name: "denied-home.png", url: null, uploadError: error, exists: true });
+    });
+
+    it("uploads large files in parts", async () => {
+      mockApi.config.storage = { backend: "s3", s3: { bucket: "qa" }, upload: { multipartThresholdMB: 8, partSizeMB: 5 } };
+      register(mockApi);
+      mockScreenshotPng = Buffer.alloc(11 * 1024 * 1024, 1);
+
+      await registeredTools.get("ab_screenshot").execute("id", { session: "big", label: "page" });
+
+      const calls = mockS3Send.mock.calls.map((c: any) => c[0]);
+      expect(calls.map((c: any) => c.constructor.name)).toEqual([
+        "CreateMultipartUploadCommand",
+        "UploadPartCommand",
+        "UploadPartCommand",
+        "UploadPartCommand",
+        "CompleteMultipartUploadCommand",
+      ]);
+      expect(calls[0].params).toMatchObject({ Bucket: "qa", Key: "agent-browser/big-page.png", ContentType: "image/png" });
+      expect(calls.slice(1, 4).map((c: any) => c.params.Body.length)).toEqual([5242880, 5242880, 1048576]);
+      expect(calls[4].params.MultipartUpload.Parts).toEqual([
+        { ETag: '"etag-1"', PartNumber: 1 },
+        { ETag: '"etag-2"', PartNumber: 2 },
+        { ETag: '"etag-3"', PartNumber: 3 },
+      ]);
+    });
+
+    it("aborts a multipart upload whose part keeps failing", async () => {
+      mockApi.config.storage = { backend: "s3", s3: { bucket: "qa" }, upload: { multipartThresholdMB: 1, retries: 1, retryDelayMs: 1 } };
+      register(mockApi);
+      mockScreenshotPng = Buffer.alloc(2 * 1024 * 1024, 1);
+      mockS3Send.mockImplementation((command: any) =>
+        command.constructor.name === "UploadPartCommand"
+          ? Promise.reject(new Error("connection reset"))
+          : Promise.resolve(s3Responses(command))
+      );
+
+      const result = await registeredTools.get("ab_screenshot").execute("id", { session: "abort", label: "page" });
+      expect(result.content[0].text).toContain("Upload failed (Upload part 1 of agent-browser/abort-page.png failed after 2 attempts: connection reset)");
+      expect(mockS3Send.mock.calls.at(-1)[0].constructor.name).toBe("AbortMultipartUploadCommand");
+      expect(mockS3Send.mock.calls.at(-1)[0].params.UploadId).toBe("upload-1");
+    });
+
+    it("reports failed uploads in JSON results and keeps going", async () => {
+      mockApi.config.storage = { backend: "s3", s3: { bucket: "qa" }, upload: { retries: 0 } };
+      register(mockApi);
+      mockScreenshotPng = makePng(40, 30);
+      mockS3Send.mockImplementation(() => Promise.reject(new Error("ECONNREFUSED")));
+
+      const result = JSON.parse((await registeredTools.get("ab_screenshot_matrix").execute("id", {
+        session: "upload-down", label: "home", targets: ["desktop"], settleMs: 0,
+      })).content[0].text);
+
+      expect(result.captured).toBe(1);
+      expect(result.captures[0]).toMatchObject({
+        path: join(pluginTempDir, "upload-down-home-desktop.png"),
+        uploadError: expect.stringContaining("ECONNREFUSED"),
+      });
+      expect(result.contactSheet).toBe(join(pluginTempDir, "upload-down-home-sheet.png"));
+      expect(result.contactSheetUploadError).toContain("ECONNREFUSED");
+    });
+
+    it("returns presigned URLs and expands key templates", async () => {
+      mockApi.config.storage = {
+        backend: "s3",
+        s3: { bucket: "private" },
+        keyTemplate: "{session}/{date}/{label}",
+        presign: { enabled: true, expiresInSec: 900 },
+      };
+      register(mockApi);
+      const date = new Date().toISOString().slice(0, 10);
+
+      const result = await registeredTools.get("ab_screenshot").execute("id", { session: "signed", label: "home" });
+
+      const key = `agent-browser/signed/${date}/home.png`;
+      expect(mockS3Send.mock.calls[0][0].params.Key).toBe(key);
+      expect(result.content[0].text).toContain(`![home](https://signed.example.com/${key}?X-Amz-Expires=900)`);
+
+      const [record] = JSON.parse((await registeredTools.get("ab_artifacts").execute("id", { action: "list" })).content[0].text).artifacts;
+      expect(record.key).toBe(key);
+      expect(Date.parse(record.urlExpiresAt) - Date.now()).toBeGreaterThan(890000);
+
+      await registeredTools.get("ab_artifacts").execute("id", { action: "get", id: record.id });
+      expect(mockGetSignedUrl).toHaveBeenCalledTimes(2);
+      expect(mockGetSignedUrl.mock.calls[1][1].params).toEqual({ Bucket: "private", Key: key });
+    });
+  });
+
+  describe("ab_network", () => {
+    const emitTraffic = () => {
+      const ok = fakeRequest("https://example.com/api/user");
+      const notFound = fakeRequest("https://example.com/api/missing");
+      const crash = fakeRequest("https://example.com/api/orders", "POST");
+      const blocked = fakeRequest("https://ads.example.net/pixel.js", "GET", "script", "net::ERR_BLOCKED_BY_CLIENT");
+      for (const request of [ok, notFound, crash, blocked]) mockContext.emit("request", request);
+      mockContext.emit("response", fakeResponse(ok, 200));
+      mockContext.emit("response", fakeResponse(notFound, 404));
+      mockContext.emit("response", fakeResponse(crash, 503));
+      for (const request of [ok, notFound, crash]) mockContext.emit("requestfinished", request);
+      mockContext.emit("requestfailed", blocked);
+    };
+
+    it("captures traffic and summarizes failures", async () => {
+      register(mockApi);
+      const networkTool = registeredTools.get("ab_network");
+      const call = async (params: any) =>
+        JSON.parse((await networkTool.execute("id", { session: "net-test", ...params })).content[0].text);
+
+      expect(await call({ action: "start" })).toEqual({ capturing: true });
+      emitTraffic();
+
+      const failures = await call({ action: "failures" });
+      expect(failures).toMatchObject({
+        total: 4,
+        failed: 3,
+        byKind: { client_error: 1, server_error: 1, blocked: 1 },
+      });
+
+      const posts = await call({ action: "filter", method: "post" });
+      expect(posts.requests).toEqual([
+        expect.objectContaining({ url: "https://example.com/api/orders", status: 503, failure: "server_error" }),
+      ]);
+
+      expect(await call({ action: "stop" })).toMatchObject({ capturing: false, total: 4, failed: 3 });
+      mockContext.emit("request", fakeRequest("https://example.com/late"));
+      expect((await call({ action: "list" })).total).toBe(4);
+    });
+
+    it("exports a HAR file", async () => {
+      register(mockApi);
+      const networkTool = registeredTools.get("ab_network");
+
+      await networkTool.execute("id", { session: "net-har", action: "start" });
+      emitTraffic();
+      const result = await networkTool.execute("id", { session: "net-har", action: "export", label: "checkout" });
+
+      const text = result.content[0].text;
+      expect(text).toContain("4 requests, 3 failed");
+      const harPath = text.match(/HAR saved locally: (\S+)/)[1];
+      const har = JSON.parse(readFileSync(harPath, "utf8"));
+      expect(har.log.version).toBe("1.2");
+      expect(har.log.entries).toHaveLength(4);
+      expect(har.log.entries[1].response.status).toBe(404);
+      expect(har.log.entries[3].response._error).toBe("net::ERR_BLOCKED_BY_CLIENT");
+    });
+
+    it("masks credentials in exported HARs unless redact is false", async () => {
+      register(mockApi);
+      const networkTool = registeredTools.get("ab_network");
+      const exportHar = async (session: string, redact?: boolean) => {
+        await networkTool.execute("id", { session, action: "start" });
+        const request = {
+          ...fakeRequest("https://example.com/api/me"),
+          headers: () => ({ accept: "*/*", authorization: "Bearer abc", cookie: "sid=1", "x-api-key": "k" }),
+        };
+        mockContext.emit("request", request);
+        mockContext.emit("response", {
+          ...fakeResponse(request, 200),
+          headers: () => ({ "content-type": "application/json", "set-cookie": "sid=2" }),
+        });
+        const result = await networkTool.execute("id", { session, action: "export", redact });
+        const harPath = result.content[0].text.match(/HAR saved locally: (\S+)/)[1];
+        const entry = JSON.parse(readFileSync(harPath, "utf8")).log.entries[0];
+        const values = (headers: any[]) => Object.fromEntries(headers.map((h) => [h.name, h.value]));
+        return { request: values(entry.request.headers), response: values(entry.response.headers) };
+      };
+
+      const redacted = await exportHar("net-redact");
+      expect(redacted.request).toEqual({
+        accept: "*/*",
+        authorization: "[REDACTED]",
+        cookie: "[REDACTED]",
+        "x-api-key": "[REDACTED]",
+      });
+      expect(redacted.response["set-cookie"]).toBe("[REDACTED]");
+      expect(redacted.response["content-type"]).toBe("application/json");
+
+      const raw = await exportHar("net-raw", false);
+      expect(raw.request.authorization).toBe("Bearer abc");
+      expect(raw.response["set-cookie"]).toBe("sid=2");
+    });
+
+    it("only classifies failures as CORS when the error says so", async () => {
+      register(mockApi);
+      const networkTool = registeredTools.get("ab_network");
+
+      await networkTool.execute("id", { session: "net-cors", action: "start" });
+      const generic = fakeRequest("https://example.com/a", "GET", "fetch", "net::ERR_FAILED");
+      const cors = fakeRequest("https://api.other.com/b", "GET", "fetch", "CORS request did not succeed");
+      for (const request of [generic, cors]) {
+        mockContext.emit("request", request);
+        mockContext.emit("requestfailed", request);
+      }
+
+      const failures = JSON.parse(
+        (await networkTool.execute("id", { session: "net-cors", action: "failures" })).content[0].text,
+      );
+      expect(failures.byKind).toEqual({ network_error: 1, cors: 1 });
+    });
+
+    it("caps the number of captured requests", async () => {
+      register(mockApi);
+      const networkTool = registeredTools.get("ab_network");
+
+      await networkTool.execute("id", { session: "net-cap", action: "start" });
+      for (let i = 0; i < 2005; i++) mockContext.emit("request", fakeRequest(`https://example.com/r${i}`));
+
+      const list = JSON.parse(
+        (await networkTool.execute("id", { session: "net-cap", action: "list", limit: 1 })).content[0].text,
+      );
+      expect(list.total).toBe(2000);
+      expect(list.requests[0]).toMatchObject({ id: 2005, url: "https://example.com/r2004" });
+    });
+
+    it("requires capture to be started", async () => {
+      register(mockApi);
+      const networkTool = registeredTools.get("ab_network");
+
+      const result = await networkTool.execute("id", { session: "net-none", action: "list" });
+      expect(JSON.parse(result.content[0].text).error).toContain("not started");
+    });
+  });
+
+  describe("ab_console", () => {
+    const fakeConsole = (type: string, text: string) => ({
+      type: () => type,
+      text: () => text,
+      location: () => ({ url: "https://example.com/app.js" }),
+    });
+
+    it("buffers console messages, page errors and failed loads", async () => {
+      register(mockApi);
+      const openTool = registeredTools.get("ab_open");
+      const consoleTool = registeredTools.get("ab_console");
+      const read = async (params: any = {}) =>
+        JSON.parse((await consoleTool.execute("id", { session: "console-test", ...params })).content[0].text);
+
+      await openTool.execute("id", { session: "console-test", url: "https://example.com" });
+      mockContext.emit("console", fakeConsole("log", "App booted"));
+      mockContext.emit("console", fakeConsole("error", "TypeError: user is undefined"));
+      mockContext.emit("weberror", { error: () => new Error("Unhandled rejection: 500") });
+      const missing = fakeRequest("https://example.com/api/profile");
+      mockContext.emit("response", fakeResponse(missing, 500));
+
+      const all = await read();
+      expect(all.total).toBe(4);
+      expect(all.counts).toEqual({ error: 1, warning: 0, pageerror: 1, network: 1 });
+
+      const errors = await read({ level: ["error", "pageerror"] });
+      expect(errors.entries.map((e: any) => e.level)).toEqual(["error", "pageerror"]);
+
+      const search = await read({ search: "API/PROFILE" });
+      expect(search.entries).toEqual([
+        expect.objectContaining({ level: "network", text: "GET 500 Error", url: "https://example.com/api/profile" }),
+      ]);
+
+      expect(await read({ action: "clear" })).toEqual({ cleared: 4 });
+      expect((await read()).total).toBe(0);
+    });
+
+    it("adds an error count to ab_snapshot on request", async () => {
+      register(mockApi);
+      const openTool = registeredTools.get("ab_open");
+      const snapshotTool = registeredTools.get("ab_snapshot");
+
+      await openTool.execute("id", { session: "console-snap", url: "https://example.com" });
+      mockContext.emit("console", fakeConsole("error", "boom"));
+
+      const plain = await snapshotTool.execute("id", { session: "console-snap" });
+      expect(plain.content[0].text).not.toContain("[page errors]");
+
+      const withErrors = await snapshotTool.execute("id", { session: "console-snap", includeErrors: true });
+      expect(withErrors.content[0].text).toContain("[page errors] 1 console errors, 0 uncaught exceptions, 0 failed requests");
+    });
+  });
+
+  describe("ab_mock", () => {
+    it("fulfills matching requests from JSON or fixture files", async () => {
+      mockApi.config.fixturesDir = mkdtempSync(join(tmpdir(), "ab-mock-"));
+      writeFileSync(join(mockApi.config.fixturesDir, "orders.json"), "[]");
+      register(mockApi);
+      const mockTool = registeredTools.get("ab_mock");
+
+      const added = JSON.parse((await mockTool.execute("id", {
+        session: "mock-test", action: "add", pattern: "**/api/orders", fixture: "orders.json", method: "get",
+      })).content[0].text);
+      expect(added.rule).toMatchObject({
+        pattern: "**/api/orders", method: "GET", respond: "fulfill", status: 200, body: "(2 bytes from fixture)",
+      });
+
+      await mockTool.execute("id", {
+        session: "mock-test", action: "add", pattern: "/\\/api\\/user$/", json: { error: "boom" }, status: 500,
+      });
+      expect(mockContext.routes.map((r) => String(r.url))).toEqual(["**/api/orders", "/\\/api\\/user$/"]);
+
+      const getRoute = fakeRoute(fakeRequest("https://example.com/api/orders"));
+      await mockContext.routes[0].handler(getRoute);
+      expect(getRoute.fulfill).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 200, body: Buffer.from("[]"), contentType: "application/json" })
+      );
+
+      const postRoute = fakeRoute(fakeRequest("https://example.com/api/orders", "POST"));
+      await mockContext.routes[0].handler(postRoute);
+      expect(postRoute.fallback).toHaveBeenCalled();
+      expect(postRoute.fulfill).not.toHaveBeenCalled();
+
+      const userRoute = fakeRoute(fakeRequest("https://example.com/api/user"));
+      await mockContext.routes[1].handler(userRoute);
+      expect(userRoute.fulfill).toHaveBeenCalledWith(expect.objectContaining({ status: 500, body: '{"error":"boom"}' }));
+    });
+
+    it("rejects fixture paths outside fixturesDir", async () => {
+      const root = mkdtempSync(join(tmpdir(), "ab-mock-"));
+      mockApi.config.fixturesDir = join(root, "fixtures");
+      writeFileSync(join(root, "secret.txt"), "nope");
+      register(mockApi);
+      const mockTool = registeredTools.get("ab_mock");
+
+      for (const fixture of ["../secret.txt", join(root, "secret.txt")]) {
+        const result = JSON.parse((await mockTool.execute("id", {
+          session: "mock-escape", action: "add", pattern: "**/api/secret", fixture,
+        })).content[0].text);
+        expect(result.error).toContain("escapes fixtures directory");
+      }
+      expect(mockContext.routes).toHaveLength(0);
+    });
+
+    it("aborts, delays and rewrites headers", async () => {
+      register(mockApi);
+      const mockTool = registeredTools.get("ab_mock");
+
+      await mockTool.execute("id", { session: "mock-misc", action: "add", pattern: "**/*.png", respond: "abort", errorCode: "blockedbyclient" });
+      await mockTool.execute("id", {
+        session: "mock-misc", action: "add", pattern: "**/api/**", delayMs: 20,
+        requestHeaders: { "x-feature": "on" }, responseHeaders: { "cache-control": "no-store" },
+      });
+
+      const imageRoute = fakeRoute(fakeRequest("https://example.com/logo.png"));
+      await mockContext.routes[0].handler(imageRoute);
+      expect(imageRoute.abort).toHaveBeenCalledWith("blockedbyclient");
+
+      const apiRoute = fakeRoute(fakeRequest("https://example.com/api/items"));
+      const started = Date.now();
+      await mockContext.routes[1].handler(apiRoute);
+      expect(Date.now() - started).toBeGreaterThanOrEqual(15);
+      expect(apiRoute.fetch).toHaveBeenCalledWith({ headers: { accept: "*/*", "x-feature": "on" } });
+      expect(apiRoute.fulfill).toHaveBeenCalledWith(expect.objectContaining({
+        headers: { "content-type": "text/html", "cache-control": "no-store" },
+      }));
+    });
+
+    it("lists and removes rules", async () => {
+      register(mockApi);
+      const mockTool = registeredTools.get("ab_mock");
+      const call = async (params: any) =>
+        JSON.parse((await mockTool.execute("id", { session: "mock-list", ...params })).content[0].text);
+
+      const first = await call({ action: "add", pattern: "**/a", body: "a" });
+      await call({ action: "add", pattern: "**/b", respond: "abort" });
+      expect((await call({ action: "list" })).rules).toHaveLength(2);
+
+      expect(await call({ action: "remove", id: first.rule.id })).toEqual({ removed: [first.rule.id] });
+      expect(mockContext.routes).toHaveLength(1);
+      expect((await call({ action: "remove", id: 9999 })).error).toBe("Mock rule not found: 9999");
+
+      await call({ action: "remove" });
+      expect((await call({ action: "list" })).rules).toEqual([]);
+      expect(mockContext.routes).toHaveLength(0);
+    });
+  });
+
+  describe("ab_screenshot_matrix", () => {
+    it("captures each target, restores the viewport and builds a contact sheet", async () => {
+      register(mockApi);
+      const matrixTool = registeredTools.get("ab_screenshot_matrix");
+      mockScreenshotPng = makePng(40, 30);
+
+      const result = JSON.parse((await matrixTool.execute("id", {
+        session: "matrix",
+        label: "home",
+        targets: ["desktop", "iPhone 14", { label: "wide", width: 1920, height: 1080 }, "Unknown Phone"],
+        settleMs: 0,
+      })).content[0].text);
+
+      expect(result.captured).toBe(3);
+      expect(result.captures.map((c: any) => c.label)).toEqual(["desktop", "iPhone 14", "wide", "Unknown Phone"]);
+      expect(result.captures[1]).toMatchObject({ device: "iPhone 14", viewport: { width: 390, height: 664 } });
+      expect(result.captures[3].error).toContain("Unknown device");
+      expect(result.restoredViewport).toEqual({ width: 1280, height: 720 });
+
+      const viewportCalls = mockExecuteCommand.mock.calls.filter((c: any) => c[0].action === "viewport").map((c: any) => c[0]);
+      expect(viewportCalls.at(-1)).toMatchObject({ width: 1280, height: 720 });
+      expect(viewportCalls).toContainEqual(expect.objectContaining({ width: 1440, height: 900 }));
+
+      // Desktop at 1x stays 40x30; the 3x phone capture shrinks to 13x10 CSS pixels
+      const sheet = PNG.sync.read(readFileSync(result.contactSheet));
+      expect(sheet.width).toBe(40 + 13 + 40 + 24 * 4);
+      expect(sheet.height).toBe(30 + 48);
+    });
+
+    it("reports a failed capture for that target and keeps going", async () => {
+      register(mockApi);
+      const matrixTool = registeredTools.get("ab_screenshot_matrix");
+      mockScreenshotPng = makePng(40, 30);
+      let shots = 0;
+      mockExecuteCommand.mockImplementation((cmd: any, browser: any) => {
+        if (cmd.action === "screenshot" && shots++ === 0) {
+          return Promise.resolve({ success: false, error: "Target page crashed" });
+        }
+        return executeCommandDefault(cmd, browser);
+      });
+
+      const result = JSON.parse((await matrixTool.execute("id", {
+        session: "matrix-fail",
+        targets: ["desktop", "mobile"],
+        settleMs: 0,
+      })).content[0].text);
+
+      expect(result.captured).toBe(1);
+      expect(result.captures[0]).toEqual({ label: "desktop", error: "Target page crashed" });
+      expect(result.captures[1]).toMatchObject({ label: "mobile", viewport: { width: 390, height: 844 } });
+    });
+
+    it("puts back the device the session was emulating", async () => {
+      register(mockApi);
+      mockScreenshotPng = makePng(40, 30);
+      await registeredTools.get("ab_settings").execute("id", { session: "matrix-device", action: "device", device: "iPad Mini" });
+      mockExecuteCommand.mockClear();
+
+      const result = JSON.parse((await registeredTools.get("ab_screenshot_matrix").execute("id", {
+        session: "matrix-device",
+        targets: ["iPhone 14", "desktop"],
+        settleMs: 0,
+      })).content[0].text);
+
+      expect(result.restoredDevice).toBe("iPad Mini");
+      const emulation = mockExecuteCommand.mock.calls
+        .map((c: any) => c[0])
+        .filter((c: any) => c.action === "device" || c.action === "viewport");
+      expect(emulation.at(-2)).toMatchObject({ action: "device", device: "iPad Mini" });
+      expect(emulation.at(-1)).toMatchObject({ action: "viewport", width: 1280, height: 720 });
+    });
+
+    it("rejects invalid targets", async () => {
+      register(mockApi);
+      const matrixTool = registeredTools.get("ab_screenshot_matrix");
+
+      const result = await matrixTool.execute("id", { session: "matrix-bad", targets: [{ width: 300 }] });
+      expect(JSON.parse(result.content[0].text).error).toContain("Invalid matrix entry");
+    });
+  });
+
+  describe("ab_visual_compare", () => {
+    it("creates a baseline, then diffs later captures against it", async () => {
+      const baselinesDir = mkdtempSync(join(tmpdir(), "ab-baselines-"));
+      mockApi.config.baselinesDir = baselinesDir;
+      register(mockApi);
+      const compareTool = registeredTools.get("ab_visual_compare");
+      const compare = async (params: any = {}) =>
+        JSON.parse((await compareTool.execute("id", { session: "visual", project: "shop", key: "home", ...params })).content[0].text);
+
+      mockScreenshotPng = makePng(20, 20);
+      expect(await compare()).toMatchObject({ baselineCreated: true });
+      expect(existsSync(join(baselinesDir, "shop", "home.png"))).toBe(true);
+
+      expect(await compare()).toMatchObject({ passed: true, mismatchPercent: 0, diffPixels: 0 });
+
+      mockScreenshotPng = makePng(20, 20, { x: 0, y: 0, size: 10 });
+      const changed = await compare({ threshold: 1 });
+      expect(changed).toMatchObject({ passed: false, diffPixels: 100, mismatchPercent: 25 });
+      expect(existsSync(changed.diff)).toBe(true);
+
+      const ignored = await compare({ ignore: ["#banner"] });
+      expect(ignored).toMatchObject({ passed: true, diffPixels: 0, ignoredRegions: 1 });
+    });
+
+    it("fails on size changes and can update the baseline", async () => {
+      mockApi.config.baselinesDir = mkdtempSync(join(tmpdir(), "ab-baselines-"));
+      register(mockApi);
+      const compareTool = registeredTools.get("ab_visual_compare");
+      const compare = async (params: any = {}) =>
+        JSON.parse((await compareTool.execute("id", { session: "visual-size", project: "shop", key: "cart", ...params })).content[0].text);
+
+      mockScreenshotPng = makePng(20, 20);
+      await compare();
+      mockScreenshotPng = makePng(30, 20);
+      expect(await compare()).toMatchObject({ passed: false, mismatchPercent: 100, sizeMismatch: "baseline 20x20, current 30x20" });
+
+      expect(await compare({ update: true })).toMatchObject({ baselineUpdated: true });
+      expect(await compare()).toMatchObject({ passed: true });
+    });
+
+    it("reports screenshot failures without touching the baseline", async () => {
+      const baselinesDir = mkdtempSync(join(tmpdir(), "ab-baselines-"));
+      mockApi.config.baselinesDir = baselinesDir;
+      register(mockApi);
+      const compareTool = registeredTools.get("ab_visual_compare");
+      mockExecuteCommand.mockImplementationOnce(() => Promise.resolve({ success: false, error: "Target page has been closed" }));
+
+      const result = await compareTool.execute("id", { session: "visual-fail", project: "shop", key: "home" });
+      expect(JSON.parse(result.content[0].text)).toMatchObject({ error: "Target page has been closed", key: "home" });
+      expect(existsSync(join(baselinesDir, "shop", "home.png"))).toBe(false);
+    });
+
+    it("rejects unsafe baseline names", async () => {
+      register(mockApi);
+      const compareTool = registeredTools.get("ab_visual_compare");
+
+      const result = await compareTool.execute("id", { session: "visual-bad", project: "../etc", key: "home" });
+      expect(JSON.parse(result.content[0].text).error).toContain("Invalid project name");
+    });
+  });
+
+  describe("ab_a11y_audit", () => {
+    const findings = [
+      { rule: "label", selector: "form > input:nth-of-type(2)", role: "textbox", name: "", snippet: "<input type=\"text\">" },
+      { rule: "color-contrast", selector: "p.muted", role: "p", name: "", snippet: "<p class=\"muted\">", details: "Contrast 2.10:1, needs 4.5:1" },
+      { rule: "label", selector: "#phone", role: "textbox", name: "", snippet: "<input id=\"phone\">" },
+      { rule: "image-alt", selector: "#hero", role: "img", name: "", snippet: "<img id=\"hero\">" },
+    ];
+
+    const mockAudit = () => {
+      mockExecuteCommand.mockImplementationOnce(() => Promise.resolve({ success: true, data: { result: findings } }));
+      mockRefMap = { e1: { role: "button", name: "Submit" }, e2: { role: "textbox", name: "" } };
+    };
+
+    it("groups violations by rule and attaches refs", async () => {
+      register(mockApi);
+      const auditTool = registeredTools.get("ab_a11y_audit");
+      mockAudit();
+
+      const result = JSON.parse((await auditTool.execute("id", { session: "a11y", rules: ["label", "image-alt"] })).content[0].text);
+
+      const script = mockExecuteCommand.mock.calls.find((c: any) => c[0].action === "evaluate")![0].script;
+      expect(script).toContain('"rules":["label","image-alt"]');
+      expect(result.passed).toBe(false);
+      expect(result.summary).toEqual({ total: 4, byImpact: { critical: 3, serious: 1 } });
+      expect(result.violations.map((v: any) => v.rule)).toEqual(["label", "image-alt", "color-contrast"]);
+      expect(result.violations[0]).toMatchObject({ impact: "critical", wcag: "1.3.1, 4.1.2", count: 2 });
+      expect(result.violations[0].nodes[0]).toMatchObject({ ref: "@e2", selector: "form > input:nth-of-type(2)" });
+      expect(result.violations[0].nodes[1].ref).toBeUndefined();
+      expect(result.violations[2].nodes[0].details).toContain("2.10:1");
+      expect(result.markdown).toBeUndefined();
+    });
+
+    it("attaches the refs of the agent's snapshot without taking a new one", async () => {
+      register(mockApi);
+      mockRefMap = {
+        e1: { role: "button", name: "Submit", nth: 0 },
+        e7: { role: "textbox", name: "", nth: 1 },
+        e5: { role: "textbox", name: "", nth: 0 },
+      };
+      await registeredTools.get("ab_snapshot").execute("id", { session: "a11y-refs" });
+      const calls = mockExecuteCommand.mock.calls.length;
+      mockExecuteCommand.mockImplementationOnce(() => Promise.resolve({ success: true, data: { result: findings } }));
+
+      const result = JSON.parse((await registeredTools.get("ab_a11y_audit").execute("id", { session: "a11y-refs" })).content[0].text);
+      expect(result.violations[0].nodes.map((n: any) => n.ref)).toEqual(["@e5", "@e7"]);
+      expect(mockExecuteCommand.mock.calls.slice(calls).some((c: any) => c[0].action === "snapshot")).toBe(false);
+    });
+
+    it("adds a markdown summary and reports scoped audit errors", async () => {
+      register(mockApi);
+      const auditTool = registeredTools.get("ab_a11y_audit");
+      mockAudit();
+
+      const result = JSON.parse((await auditTool.execute("id", { session: "a11y-md", markdown: true, maxNodes: 1 })).content[0].text);
+      expect(result.violations[0].nodes).toHaveLength(1);
+      expect(result.markdown).toContain("### Accessibility audit: https://example.com");
+      expect(result.markdown).toContain("Found **4** violations across **3** rules.");
+      expect(result.markdown).toContain("…and 1 more");
+
+      mockExecuteCommand.mockImplementationOnce(() =>
+        Promise.resolve({ success: false, error: "Audit scope not found: #missing" })
+      );
+      const failed = await auditTool.execute("id", { session: "a11y-md", selector: "#missing" });
+      expect(JSON.parse(failed.content[0].text).error).toContain("Audit scope not found");
+    });
+  });
+
+  describe("ab_tabs", () => {
+    it("manages tabs", async () => {
+      register(mockApi);
+      const openTool = registeredTools.get("ab_open");
+      const tabsTool = registeredTools.get("ab_tabs");
+
+      await openTool.execute("id", { session: "tabs-test", url: "https://example.com" });
+
+      // List tabs
+      await tabsTool.execute("id", { session: "tabs-test", action: "list" });
+      expect(mockExecuteCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "tab_list" }),
+        expect.anything()
+      );
+
+      // New tab
+      await tabsTool.execute("id", { session: "tabs-test", action: "new", url: "https://google.com" });
+      expect(mockExecuteCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "tab_new", url: "https://google.com" }),
+        expect.anything()
+      );
+    });
+  });
+
+  describe("ab_settings", () => {
+    it("sets viewport and device", async () => {
+      register(mockApi);
+      const openTool = registeredTools.get("ab_open");
+      const settingsTool = registeredTools.get("ab_settings");
+
+      await openTool.execute("id", { session: "settings-test", url: "https://example.com" });
+
+      // Viewport
+      await settingsTool.execute("id", { session: "settings-test", action: "viewport", width: 375, height: 667 });
+      expect(mockExecuteCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "viewport", width: 375, height: 667 }),
+        expect.anything()
+      );
+
+      // Device
+      await settingsTool.execute("id", { session: "settings-test", action: "device", device: "Pixel 5" });
+      expect(mockExecuteCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "device", device: "Pixel 5" }),
+        expect.anything()
+      );
+    });
+  });
+
+  describe("ab_advanced", () => {
     it("lists actions when called with no action", async () => {
       register(mockApi);
       const openTool = registeredTools.get("ab_open");
@@ -374,6 +1833,660 @@ describe("agent-browser-plugin", () => {
       const stopText = stopResult.content[0].text;
       expect(stopText).toContain("saved locally");
     });
+
+    it("speeds up long recordings and transcodes to mp4", async () => {
+      mockApi.config.video = { speedUpAfter: 60, maxSpeedup: 4, format: "mp4" };
+      mockVideoDuration = "300";
+      register(mockApi);
+      const startTool = registeredTools.get("ab_record_start");
+      const stopTool = registeredTools.get("ab_record_stop");
+
+      await startTool.execute("id", { session: "rec-speed", label: "long" });
+      const stopResult = await stopTool.execute("id", { session: "rec-speed" });
+
+      const ffmpegCmd = execCommands().find((c) => c.includes("setpts=PTS/4"));
+      expect(ffmpegCmd).toContain("libx264");
+      expect(ffmpegCmd).toContain("/tmp/test-processed.mp4");
+      const stopText = stopResult.content[0].text;
+      expect(stopText).toContain("/tmp/test-processed.mp4");
+      expect(stopText).toContain("sped up 4x to 75s");
+    });
+
+    it("leaves short recordings untouched", async () => {
+      register(mockApi);
+      const startTool = registeredTools.get("ab_record_start");
+      const stopTool = registeredTools.get("ab_record_stop");
+
+      await startTool.execute("id", { session: "rec-short" });
+      const stopResult = await stopTool.execute("id", { session: "rec-short" });
+
+      expect(execCommands().some((c) => c.startsWith("ffmpeg") && !c.endsWith("-version"))).toBe(false);
+      expect(stopResult.content[0].text).toContain("Recording saved locally: /tmp/test.webm");
+    });
+
+    it("skips processing quietly when ffmpeg is not installed", async () => {
+      mockApi.config.video = { trimIdle: true };
+      mockExecFile.mockImplementation((_file: string, args: string[], _opts: any, callback: Function) => {
+        if (args[0] === "-version") callback(new Error("command not found"), "", "");
+        else callback(null, `${mockVideoDuration}\n`, "");
+      });
+      const errors = spyOn(console, "error");
+      register(mockApi);
+
+      await registeredTools.get("ab_record_start").execute("id", { session: "rec-noffmpeg" });
+      await registeredTools.get("ab_record_stop").execute("id", { session: "rec-noffmpeg" });
+      await registeredTools.get("ab_record_start").execute("id", { session: "rec-noffmpeg" });
+      const stopResult = await registeredTools.get("ab_record_stop").execute("id", { session: "rec-noffmpeg" });
+
+      const cmds = execCommands();
+      expect(cmds.filter((c) => c.startsWith("ffprobe -version"))).toHaveLength(1);
+      expect(cmds.some((c) => c.includes("mpdecimate") || c.includes("show_entries"))).toBe(false);
+      expect(errors).not.toHaveBeenCalled();
+      expect(stopResult.content[0].text).toContain("Recording saved locally: /tmp/test.webm");
+      errors.mockRestore();
+    });
+
+    it("passes recording paths to ffmpeg as arguments, never through a shell", async () => {
+      mockApi.config.video = { speedUpAfter: 60, format: "mp4" };
+      register(mockApi);
+      await registeredTools.get("ab_record_start").execute("id", { session: "rec-shell", label: "shell" });
+      const recording = "/tmp/a b'; touch pwned; '.webm";
+      mockRecordingPath = recording;
+      await registeredTools.get("ab_record_stop").execute("id", { session: "rec-shell" });
+
+      const transcode = mockExecFile.mock.calls.find((c: any) => c[0] === "ffmpeg" && c[1].includes("libx264"))!;
+      expect(transcode[1]).toContain(recording);
+      expect(transcode[1]).toContain("/tmp/a b'; touch pwned; '-processed.mp4");
+    });
+
+    it("trims idle frames before measuring the speed-up", async () => {
+      mockApi.config.video = { trimIdle: true };
+      mockVideoDuration = "90";
+      register(mockApi);
+      const startTool = registeredTools.get("ab_record_start");
+      const stopTool = registeredTools.get("ab_record_stop");
+
+      await startTool.execute("id", { session: "rec-trim" });
+      await stopTool.execute("id", { session: "rec-trim" });
+
+      const cmds = execCommands();
+      expect(cmds.some((c) => c.includes("mpdecimate"))).toBe(true);
+      expect(cmds.some((c) => c.includes("setpts=PTS/1.5"))).toBe(true);
+    });
+  });
+
+  describe("recording annotations", () => {
+    const evaluatedScripts = () =>
+      mockExecuteCommand.mock.calls
+        .filter((c) => c[0].action === "evaluate")
+        .map((c) => c[0].script as string);
+
+    it("overlays numbered steps, ripples and masked captions while recording", async () => {
+      mockApi.config.annotations = { holdMs: 0 };
+      register(mockApi);
+      const startTool = registeredTools.get("ab_record_start");
+      const clickTool = registeredTools.get("ab_click");
+      const fillTool = registeredTools.get("ab_fill");
+
+      await startTool.execute("id", { session: "annotate-test" });
+      await clickTool.execute("id", { session: "annotate-test", selector: "@e1" });
+      await fillTool.execute("id", { session: "annotate-test", selector: "#email", value: "qa@example.com" });
+      await fillTool.execute("id", { session: "annotate-test", selector: "#password", value: "hunter2" });
+
+      const scripts = evaluatedScripts();
+      expect(scripts).toHaveLength(3);
+      expect(scripts[0]).toContain('"step":1');
+      expect(scripts[0]).toContain('"label":"Click @e1"');
+      expect(scripts[0]).toContain('"box":{"x":100,"y":200');
+      expect(scripts[1]).toContain('"text":"qa@example.com"');
+      expect(scripts[2]).toContain('"step":3');
+      expect(scripts[2]).toContain('"text":"•••••••"');
+      expect(scripts[2]).not.toContain("hunter2");
+    });
+
+    it("bounds overlay element lookups instead of waiting the default 30s", async () => {
+      mockApi.config.annotations = { holdMs: 0 };
+      register(mockApi);
+      await registeredTools.get("ab_record_start").execute("id", { session: "annotate-timeout" });
+      await registeredTools.get("ab_fill").execute("id", { session: "annotate-timeout", selector: "#email", value: "x" });
+
+      // The trace's password check, then the overlay's ripple box and password check
+      expect(mockLocatorCalls.map((c) => c.method)).toEqual(["getAttribute", "boundingBox", "getAttribute"]);
+      expect(mockLocatorCalls.every((c) => c.options?.timeout === 2000)).toBe(true);
+    });
+
+    it("skips overlays when not recording or annotate is off", async () => {
+      mockApi.config.annotations = { holdMs: 0 };
+      register(mockApi);
+      const startTool = registeredTools.get("ab_record_start");
+      const clickTool = registeredTools.get("ab_click");
+
+      await clickTool.execute("id", { session: "annotate-off", selector: "@e1" });
+      await startTool.execute("id", { session: "annotate-off", annotate: false });
+      await clickTool.execute("id", { session: "annotate-off", selector: "@e1" });
+
+      expect(evaluatedScripts()).toHaveLength(0);
+    });
+  });
+
+  describe("session profiles", () => {
+    it("saves cookies and storage, then restores them into a new session", async () => {
+      const profilesDir = mkdtempSync(join(tmpdir(), "ab-profiles-"));
+      mockApi.config.profilesDir = profilesDir;
+      register(mockApi);
+      const saveTool = registeredTools.get("ab_session_save");
+      const loadTool = registeredTools.get("ab_session_load");
+
+      const saveResult = await saveTool.execute("id", { session: "profile-a", profile: "staging-admin" });
+      expect(JSON.parse(saveResult.content[0].text)).toMatchObject({
+        saved: true,
+        cookies: 1,
+        origins: ["https://example.com"],
+      });
+
+      const saved = JSON.parse(readFileSync(join(profilesDir, "staging-admin.json"), "utf8"));
+      expect(saved.origins[0]).toEqual({
+        origin: "https://example.com",
+        localStorage: { token: "t-123" },
+        sessionStorage: { tab: "1" },
+      });
+
+      mockExecuteCommand.mockClear();
+      const loadResult = await loadTool.execute("id", { session: "profile-b", profile: "staging-admin" });
+      expect(JSON.parse(loadResult.content[0].text).loaded).toBe(true);
+      expect(mockExecuteCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "cookies_set", cookies: saved.cookies }),
+        expect.anything()
+      );
+      expect(mockExecuteCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "addinitscript", script: expect.stringContaining("t-123") }),
+        expect.anything()
+      );
+    });
+
+    it("restores a profile before ab_open navigates", async () => {
+      const profilesDir = mkdtempSync(join(tmpdir(), "ab-profiles-"));
+      writeFileSync(
+        join(profilesDir, "qa.json"),
+        JSON.stringify({ name: "qa", savedAt: "2026-01-01T00:00:00.000Z", cookies: [{ name: "sid", value: "x" }], origins: [] })
+      );
+      mockApi.config.profilesDir = profilesDir;
+      register(mockApi);
+      const openTool = registeredTools.get("ab_open");
+
+      await openTool.execute("id", { session: "profile-open", url: "https://example.com", profile: "qa" });
+
+      const actions = mockExecuteCommand.mock.calls.map((c) => c[0].action);
+      expect(actions.indexOf("cookies_set")).toBeGreaterThanOrEqual(0);
+      expect(actions.indexOf("cookies_set")).toBeLessThan(actions.indexOf("navigate"));
+    });
+
+    it("reports missing profiles", async () => {
+      mockApi.config.profilesDir = mkdtempSync(join(tmpdir(), "ab-profiles-"));
+      register(mockApi);
+      const loadTool = registeredTools.get("ab_session_load");
+
+      const result = await loadTool.execute("id", { session: "profile-missing", profile: "nope" });
+      expect(JSON.parse(result.content[0].text).error).toBe("Profile not found: nope");
+    });
+  });
+
+  describe("ab_run", () => {
+    it("runs steps in order with captures and assertions", async () => {
+      register(mockApi);
+      const runTool = registeredTools.get("ab_run");
+
+      const result = await runTool.execute("id", {
+        session: "run-test",
+        steps: [
+          { tool: "ab_open", params: { url: "https://example.com" } },
+          { tool: "query", params: { action: "gettext", selector: "@e1" }, capture: { greeting: "data.text" } },
+          { tool: "fill", params: { selector: "@e2", value: "{{greeting}}!" } },
+          { tool: "query", params: { action: "title" }, assert: { path: "data.title", equals: "Test Page" } },
+        ],
+      });
+
+      const report = JSON.parse(result.content[0].text);
+      expect(report.passed).toBe(true);
+      expect(report.summary).toEqual({ total: 4, passed: 4, failed: 0, skipped: 0 });
+      expect(report.variables.greeting).toBe("Hello World");
+      expect(mockExecuteCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "fill", selector: "@e2", value: "Hello World!" }),
+        expect.anything()
+      );
+    });
+
+    it("stops at a failed step unless continueOnError is set", async () => {
+      register(mockApi);
+      const runTool = registeredTools.get("ab_run");
+
+      const result = await runTool.execute("id", {
+        session: "run-fail",
+        steps: [
+          { tool: "query", params: { action: "title" }, assert: { path: "data.title", contains: "Dashboard" }, continueOnError: true },
+          { tool: "nonexistent" },
+          { tool: "click", params: { selector: "@e1" } },
+        ],
+      });
+
+      const report = JSON.parse(result.content[0].text);
+      expect(report.passed).toBe(false);
+      expect(report.steps.map((s: any) => s.status)).toEqual(["failed", "failed", "skipped"]);
+      expect(report.steps[0].error).toContain('to contain "Dashboard"');
+      expect(report.steps[1].error).toBe("Unknown tool: nonexistent");
+      expect(mockExecuteCommand).not.toHaveBeenCalledWith(
+        expect.objectContaining({ action: "click" }),
+        expect.anything()
+      );
+    });
+  });
+
+  describe("ab_trace", () => {
+    it("records every call with params, outcome and duration", async () => {
+      register(mockApi);
+      await registeredTools.get("ab_open").execute("id", { session: "trace", url: "https://example.com" });
+      await registeredTools.get("ab_click").execute("id", { session: "trace", selector: "#go" });
+      await registeredTools.get("ab_network").execute("id", { session: "trace", action: "list" });
+
+      const result = await registeredTools.get("ab_trace").execute("id", { session: "trace", action: "show" });
+
+      const trace = JSON.parse(result.content[0].text);
+      expect(trace.total).toBe(3);
+      expect(trace.entries.map((e: any) => e.tool)).toEqual(["ab_open", "ab_click", "ab_network"]);
+      expect(trace.entries.map((e: any) => e.ok)).toEqual([true, true, false]);
+      expect(trace.entries[2].error).toBeDefined();
+      expect(trace.entries.every((e: any) => typeof e.durationMs === "number")).toBe(true);
+    });
+
+    it("captures before/after screenshots when enabled", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "ab-trace-"));
+      mockApi.config.storage = { backend: "local", local: { dir } };
+      register(mockApi);
+      const traceTool = registeredTools.get("ab_trace");
+      await registeredTools.get("ab_open").execute("id", { session: "trace-shots", url: "https://example.com" });
+      await traceTool.execute("id", { session: "trace-shots", action: "screenshots", enabled: true });
+      await registeredTools.get("ab_click").execute("id", { session: "trace-shots", selector: "#go" });
+
+      const result = await traceTool.execute("id", { session: "trace-shots", action: "export", format: "json", label: "run" });
+
+      expect(result.content[0].text).toContain("Trace exported and uploaded");
+      const exported = JSON.parse(readFileSync(join(dir, "agent-browser", "trace-shots-run.json"), "utf8"));
+      const click = exported.entries.find((e: any) => e.tool === "ab_click");
+      expect(existsSync(click.before)).toBe(true);
+      expect(existsSync(click.after)).toBe(true);
+      expect(exported.entries[0].before).toBeUndefined();
+    });
+
+    it("exports a self-contained HTML timeline", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "ab-trace-"));
+      mockApi.config.storage = { backend: "local", local: { dir } };
+      mockApi.config.trace = { screenshots: true };
+      register(mockApi);
+      await registeredTools.get("ab_open").execute("id", { session: "trace-html", url: "https://example.com" });
+      await registeredTools.get("ab_fill").execute("id", { session: "trace-html", selector: "#q", value: "<b>hi</b>" });
+
+      await registeredTools.get("ab_trace").execute("id", { session: "trace-html", action: "export", format: "html", label: "run" });
+
+      const html = readFileSync(join(dir, "agent-browser", "trace-html-run.html"), "utf8");
+      expect(html).toContain("2 calls, 0 failed");
+      expect(html).toContain("&lt;b&gt;hi&lt;/b&gt;");
+      expect(html).toContain("data:image/png;base64,");
+    });
+
+    it("replays an exported trace into another session", async () => {
+      register(mockApi);
+      const traceTool = registeredTools.get("ab_trace");
+      await registeredTools.get("ab_open").execute("id", { session: "explore", url: "https://example.com" });
+      await registeredTools.get("ab_click").execute("id", { session: "explore", selector: "#search" });
+      await registeredTools.get("ab_network").execute("id", { session: "explore", action: "list" });
+      await registeredTools.get("ab_fill").execute("id", { session: "explore", selector: "#q", value: "shoes" });
+      await traceTool.execute("id", { session: "explore", action: "export", label: "flow" });
+      mockExecuteCommand.mockClear();
+
+      const result = await traceTool.execute("id", {
+        session: "regression",
+        action: "replay",
+        path: join(pluginTempDir, "explore-flow.json"),
+      });
+
+      const report = JSON.parse(result.content[0].text);
+      expect(report.passed).toBe(true);
+      expect(report.steps.map((s: any) => s.status)).toEqual(["passed", "passed", "skipped", "passed"]);
+      expect(mockExecuteCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "fill", selector: "#q", value: "shoes" }),
+        expect.anything()
+      );
+      const replayed = JSON.parse((await traceTool.execute("id", { session: "regression", action: "show" })).content[0].text);
+      expect(replayed.entries.map((e: any) => e.tool)).toEqual(["ab_open", "ab_click", "ab_fill"]);
+    });
+
+    it("only replays trace files from the temp directory or tracesDir", async () => {
+      const tracesDir = mkdtempSync(join(tmpdir(), "ab-traces-"));
+      mockApi.config.tracesDir = tracesDir;
+      register(mockApi);
+      const replay = async (path: string) =>
+        JSON.parse((await registeredTools.get("ab_trace").execute("id", { session: "replay-path", action: "replay", path })).content[0].text);
+
+      expect((await replay("/etc/passwd")).error).toContain("must be inside");
+      expect((await replay(join(tracesDir, "..", "elsewhere.json"))).error).toContain("must be inside");
+
+      writeFileSync(join(tracesDir, "secret.json"), "api_key=sk_live_123");
+      const invalid = await replay(join(tracesDir, "secret.json"));
+      expect(invalid).toEqual({ error: `Trace file is not valid JSON: ${join(tracesDir, "secret.json")}` });
+      expect((await replay("missing.json")).error).toBe("Cannot read trace file: missing.json");
+
+      writeFileSync(join(tracesDir, "saved.json"), JSON.stringify({ entries: [] }));
+      expect(await replay(join(tracesDir, "saved.json"))).toMatchObject({ passed: true, steps: [] });
+    });
+
+    it("keeps passwords and credential-like values out of the trace and generated specs", async () => {
+      register(mockApi);
+      const traceTool = registeredTools.get("ab_trace");
+      await registeredTools.get("ab_open").execute("id", { session: "secret", url: "https://example.com/login" });
+      await registeredTools.get("ab_fill").execute("id", { session: "secret", selector: "#q", value: "shoes" });
+      await registeredTools.get("ab_fill").execute("id", { session: "secret", selector: "#password", value: "hunter2" });
+      await registeredTools.get("ab_interact").execute("id", {
+        session: "secret", action: "type", selector: { label: "API token" }, value: "tok_live_1",
+      });
+      mockExecuteCommand.mockImplementationOnce(() => Promise.resolve({
+        success: true,
+        data: { result: [
+          { key: "Email", by: "label", kind: "text", type: "email", marker: "0" },
+          { key: "Confirm", by: "label", kind: "text", type: "password", marker: "1" },
+        ] },
+      }));
+      await registeredTools.get("ab_fill_form").execute("id", {
+        session: "secret", fields: { Email: "qa@example.com", Confirm: "hunter2" },
+      });
+
+      await traceTool.execute("id", { session: "secret", action: "export", label: "run" });
+      const trace = JSON.parse(readFileSync(join(pluginTempDir, "secret-run.json"), "utf8"));
+      expect(trace.entries.map((e: any) => e.params.value)).toEqual([undefined, "shoes", "[REDACTED]", "[REDACTED]", undefined]);
+      expect(trace.entries[4].params.fields).toEqual({ Email: "qa@example.com", Confirm: "[REDACTED]" });
+
+      const spec = JSON.parse((await registeredTools.get("ab_export_test").execute("id", { session: "secret" })).content[0].text);
+      expect(spec.code).not.toContain("hunter2");
+      expect(spec.code).not.toContain("tok_live_1");
+      expect(spec.code).toContain('await page.locator("#password").fill(process.env.PASSWORD ?? "");');
+      expect(spec.code).toContain('.pressSequentially(process.env.API_TOKEN ?? "");');
+      expect(spec.code).toContain('.fill(process.env.CONFIRM ?? "");');
+
+      const replay = JSON.parse((await traceTool.execute("id", { session: "secret-replay", action: "replay", fromSession: "secret" })).content[0].text);
+      expect(replay.steps.map((s: any) => s.status)).toEqual(["passed", "passed", "failed", "skipped", "skipped"]);
+      expect(replay.steps[2].error).toContain("redacted");
+    });
+
+    it("stops replaying at the first failure", async () => {
+      register(mockApi);
+      await registeredTools.get("ab_open").execute("id", { session: "src", url: "https://example.com" });
+      await registeredTools.get("ab_click").execute("id", { session: "src", selector: "#a" });
+      await registeredTools.get("ab_click").execute("id", { session: "src", selector: "#b" });
+      mockExecuteCommand.mockImplementationOnce(() => Promise.resolve({ success: false, error: "Navigation failed" }));
+
+      const result = await registeredTools.get("ab_trace").execute("id", { session: "dst", action: "replay", fromSession: "src" });
+
+      const report = JSON.parse(result.content[0].text);
+      expect(report.passed).toBe(false);
+      expect(report.steps.map((s: any) => s.status)).toEqual(["failed", "skipped", "skipped"]);
+      expect(report.steps[0].error).toContain("Navigation failed");
+    });
+  });
+
+  describe("ab_export_test", () => {
+    it("generates a Playwright spec with semantic locators and assertions", async () => {
+      const testsDir = mkdtempSync(join(tmpdir(), "ab-spec-"));
+      mockApi.config.testsDir = testsDir;
+      register(mockApi);
+      mockRefMap = {
+        e1: { role: "button", name: "Sign in", nth: 0 },
+        e2: { role: "textbox", name: "Email" },
+      };
+      await registeredTools.get("ab_open").execute("id", { session: "gen", url: "https://example.com/login" });
+      await registeredTools.get("ab_snapshot").execute("id", { session: "gen" });
+      await registeredTools.get("ab_fill").execute("id", { session: "gen", selector: "@e2", value: "qa@example.com" });
+      await registeredTools.get("ab_interact").execute("id", { session: "gen", action: "press", value: "Tab" });
+      await registeredTools.get("ab_click").execute("id", { session: "gen", selector: "@e1" });
+      await registeredTools.get("ab_screenshot").execute("id", { session: "gen" });
+      await registeredTools.get("ab_network").execute("id", { session: "gen", action: "list" });
+      await registeredTools.get("ab_query").execute("id", { session: "gen", action: "gettext", selector: { role: "heading", name: "Welcome" } });
+      await registeredTools.get("ab_query").execute("id", { session: "gen", action: "title" });
+      await registeredTools.get("ab_query").execute("id", { session: "gen", action: "isenabled", selector: "#save" });
+      await registeredTools.get("ab_assert").execute("id", { session: "gen", type: "count", selector: ".row", expected: 3 });
+
+      const path = join(testsDir, "e2e", "login.spec.ts");
+      const result = await registeredTools.get("ab_export_test").execute("id", { session: "gen", name: "login flow", path: "e2e/login.spec.ts" });
+
+      const spec = JSON.parse(result.content[0].text);
+      expect(spec.path).toBe(path);
+      expect(spec.steps).toBe(8);
+      expect(spec.warnings).toBeUndefined();
+      expect(readFileSync(path, "utf8")).toBe(spec.code);
+      expect(spec.code).toBe([
+        'import { test, expect } from "@playwright/test";',
+        "",
+        'test("login flow", async ({ page }) => {',
+        '  await page.goto("https://example.com/login");',
+        '  await page.getByRole("textbox", { name: "Email", exact: true }).fill("qa@example.com");',
+        '  await page.keyboard.press("Tab");',
+        '  await page.getByRole("button", { name: "Sign in", exact: true }).first().click();',
+        '  await expect(page.getByRole("heading", { name: "Welcome" })).toHaveText("Hello World");',
+        '  await expect(page).toHaveTitle("Test Page");',
+        '  await expect(page.locator("#save")).toBeDisabled();',
+        '  await expect(page.locator(".row")).toHaveCount(3);',
+        "});",
+        "",
+      ].join("\n"));
+    });
+
+    it("only writes specs inside testsDir or the temp directory", async () => {
+      register(mockApi);
+      await registeredTools.get("ab_open").execute("id", { session: "gen-path", url: "https://example.com" });
+      const exportTo = async (path: string) =>
+        JSON.parse((await registeredTools.get("ab_export_test").execute("id", { session: "gen-path", path })).content[0].text);
+
+      const escaped = await exportTo("../../../home/me/.bashrc");
+      expect(escaped.error).toContain("must be inside testsDir");
+      expect(existsSync(resolve(pluginTempDir, "../../../home/me/.bashrc"))).toBe(false);
+      expect((await exportTo("/etc/cron.d/evil")).error).toContain("must be inside testsDir");
+
+      expect((await exportTo("nested/smoke.spec.ts")).path).toBe(join(pluginTempDir, "nested", "smoke.spec.ts"));
+    });
+
+    it("scopes form fills to the form and quotes name selectors", async () => {
+      register(mockApi);
+      await registeredTools.get("ab_open").execute("id", { session: "gen-form", url: "https://example.com/signup" });
+      mockExecuteCommand.mockImplementationOnce(() => Promise.resolve({
+        success: true,
+        data: { result: [
+          { key: "Email", by: "label", kind: "text", type: "email", marker: "0" },
+          { key: 'user"name', by: "name", kind: "text", type: "text", marker: "1" },
+          { key: "Plan", by: "group", kind: "radio", type: "radio", options: [{ marker: "2", value: "pro", label: "Pro" }] },
+        ] },
+      }));
+      await registeredTools.get("ab_fill_form").execute("id", {
+        session: "gen-form", selector: "#signup",
+        fields: { Email: "qa@example.com", 'user"name': "qa", Plan: "Pro" },
+      });
+
+      const spec = JSON.parse((await registeredTools.get("ab_export_test").execute("id", { session: "gen-form" })).content[0].text);
+      expect(spec.code).toContain('  await page.locator("#signup").getByLabel("Email", { exact: true }).fill("qa@example.com");');
+      expect(spec.code).toContain('  await page.locator("#signup").locator("[name=\\"user\\\\\\"name\\"]").fill("qa");');
+      expect(spec.code).toContain('  await page.locator("#signup").getByLabel("Pro").check();');
+    });
+
+    it("makes calls it can't convert fail the spec", async () => {
+      register(mockApi);
+      await registeredTools.get("ab_open").execute("id", { session: "gen-todo", url: "https://example.com" });
+      await registeredTools.get("ab_settings").execute("id", { session: "gen-todo", action: "device", device: "iPhone 14" });
+      await registeredTools.get("ab_advanced").execute("id", { session: "gen-todo", action: "cookies_clear", params: {} });
+
+      const result = await registeredTools.get("ab_export_test").execute("id", { session: "gen-todo", assertQueries: false });
+
+      const spec = JSON.parse(result.content[0].text);
+      expect(spec.path).toEndWith("gen-todo.spec.ts");
+      expect(spec.code).toContain('import { test, expect, devices } from "@playwright/test";');
+      expect(spec.code).toContain('test.use({ ...devices["iPhone 14"] });');
+      expect(spec.code).toContain([
+        '  // ab_advanced {"action":"cookies_clear","params":{}}',
+        '  throw new Error("unconverted step #3 ab_advanced: no Playwright equivalent");',
+      ].join("\n"));
+      expect(spec.warnings).toEqual(["#3 ab_advanced: no Playwright equivalent"]);
+    });
+  });
+
+  describe("ab_report", () => {
+    it("collects steps, checks, console errors and artifacts into one uploaded report", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "ab-report-"));
+      mockApi.config.storage = { backend: "local", local: { dir, baseUrl: "https://artifacts.example.com" } };
+      register(mockApi);
+      await registeredTools.get("ab_open").execute("id", { session: "rep", url: "https://example.com" });
+      mockContext.emit("console", { type: () => "error", text: () => "TypeError: cart is null", location: () => ({}) });
+      await registeredTools.get("ab_screenshot").execute("id", { session: "rep", label: "home" });
+      await registeredTools.get("ab_assert").execute("id", { session: "rep", type: "title_matches", expected: "Test" });
+      await registeredTools.get("ab_assert").execute("id", { session: "rep", type: "text_equals", selector: "h1", expected: "Goodbye" });
+
+      const result = await registeredTools.get("ab_report").execute("id", { session: "rep", title: "Checkout QA", label: "final" });
+
+      const text = result.content[0].text;
+      expect(text).toContain("Session report uploaded: 4 steps (1 failed), 1/2 checks passed, 1 console errors, 1 artifacts.");
+      expect(text).toContain("[Checkout QA](https://artifacts.example.com/agent-browser/rep-final.html)");
+      expect(text).toContain("- ✅ title_matches passed");
+      expect(text).toContain('- ❌ text_equals h1 failed: expected "Goodbye", got "Hello World"');
+      expect(text).toContain("- `error` TypeError: cart is null");
+      expect(text).toContain("- ![rep-home.png](https://artifacts.example.com/agent-browser/rep-home.png)");
+
+      const html = readFileSync(join(dir, "agent-browser", "rep-final.html"), "utf8");
+      expect(html).toContain("<h1>Checkout QA</h1>");
+      expect(html).toContain(`data:image/png;base64,${Buffer.from("fake-png").toString("base64")}`);
+      expect(html).toContain("TypeError: cart is null");
+      expect(existsSync(join(dir, "agent-browser", "rep-final.md"))).toBe(true);
+    });
+
+    it("returns local paths when no storage is configured", async () => {
+      register(mockApi);
+      await registeredTools.get("ab_open").execute("id", { session: "rep-local", url: "https://example.com" });
+
+      const result = await registeredTools.get("ab_report").execute("id", { session: "rep-local", label: "final" });
+
+      const text = result.content[0].text;
+      expect(text).toContain("Session report saved locally:");
+      expect(text).toContain("rep-local-final.html");
+      expect(text).toContain("1 steps (0 failed), 0/0 checks passed, 0 console errors, 0 artifacts");
+    });
+  });
+
+  describe("ab_artifacts", () => {
+    const artifacts = async (params: any) =>
+      JSON.parse((await registeredTools.get("ab_artifacts").execute("id", params)).content[0].text);
+
+    it("registers each upload with ID, hash and size without overwriting reused labels", async () => {
+      register(mockApi);
+      const screenshotTool = registeredTools.get("ab_screenshot");
+      await screenshotTool.execute("id", { session: "arts", label: "home" });
+      const second = await screenshotTool.execute("id", { session: "arts", label: "home" });
+
+      expect(second.content[0].text).toContain("arts-home-2.png");
+      const list = await artifacts({ action: "list", session: "arts" });
+      expect(list.total).toBe(2);
+      expect(list.totalBytes).toBe(16);
+      expect(list.artifacts.map((a: any) => a.name)).toEqual(["arts-home.png", "arts-home-2.png"]);
+      expect(list.artifacts[0]).toMatchObject({
+        session: "arts",
+        contentType: "image/png",
+        size: 8,
+        sha256: "f084b1351c41cf3c554d932a3a978992a39b902f289c6e213b6428c3b38541ed",
+        exists: true,
+      });
+      expect(list.artifacts[0].id).not.toBe(list.artifacts[1].id);
+      expect(JSON.parse(readFileSync(join(pluginTempDir, "artifacts.json"), "utf8"))).toHaveLength(2);
+    });
+
+    it("gets text artifacts with an integrity check and deletes by ID or session", async () => {
+      register(mockApi);
+      await registeredTools.get("ab_open").execute("id", { session: "arts", url: "https://example.com" });
+      await registeredTools.get("ab_trace").execute("id", { session: "arts", action: "export", label: "t" });
+      await registeredTools.get("ab_screenshot").execute("id", { session: "arts", label: "home" });
+      const [trace, shot] = (await artifacts({ action: "list" })).artifacts;
+
+      const fetched = await artifacts({ action: "get", id: trace.id });
+      expect(fetched).toMatchObject({ name: "arts-t.json", contentType: "application/json", intact: true });
+      expect(JSON.parse(fetched.content).entries[0].tool).toBe("ab_open");
+      expect((await artifacts({ action: "get", id: shot.id })).content).toBeUndefined();
+
+      const removed = await artifacts({ action: "delete", id: shot.id });
+      expect(removed).toMatchObject({ deleted: [shot.id], freedBytes: 8 });
+      expect(existsSync(shot.path)).toBe(false);
+      expect((await artifacts({ action: "get", id: shot.id })).error).toBe(`Artifact not found: ${shot.id}`);
+
+      await artifacts({ action: "delete", session: "arts" });
+      expect((await artifacts({ action: "list" })).total).toBe(0);
+      expect(existsSync(trace.path)).toBe(false);
+    });
+
+    it("prunes by age and by disk budget", async () => {
+      mockApi.config.retention = { maxAgeHours: 1, maxTotalMB: 16 / (1024 * 1024) };
+      register(mockApi);
+      const screenshotTool = registeredTools.get("ab_screenshot");
+      for (const label of ["old", "a", "b", "c"]) {
+        await screenshotTool.execute("id", { session: "prune", label });
+      }
+      const hoursAgo = (h: number) => new Date(Date.now() - h * 3600000);
+      utimesSync(join(pluginTempDir, "prune-old.png"), hoursAgo(2), hoursAgo(2));
+      utimesSync(join(pluginTempDir, "prune-a.png"), hoursAgo(0.5), hoursAgo(0.5));
+
+      const result = await artifacts({ action: "prune" });
+
+      expect(result).toEqual({ deleted: 2, freedBytes: 16 });
+      expect(existsSync(join(pluginTempDir, "prune-old.png"))).toBe(false);
+      expect(existsSync(join(pluginTempDir, "prune-a.png"))).toBe(false);
+      expect((await artifacts({ action: "list" })).artifacts.map((a: any) => a.name)).toEqual(["prune-b.png", "prune-c.png"]);
+    });
+
+    it("keeps the trace screenshots of live sessions", async () => {
+      mockApi.config.retention = { maxAgeHours: 1 };
+      mockApi.config.trace = { screenshots: true };
+      register(mockApi);
+      await registeredTools.get("ab_open").execute("id", { session: "prune-trace", url: "https://example.com" });
+      await registeredTools.get("ab_click").execute("id", { session: "prune-trace", selector: "#go" });
+      const shots = readdirSync(join(pluginTempDir, "trace")).map((f) => join(pluginTempDir, "trace", f));
+      expect(shots.length).toBeGreaterThan(0);
+      const old = new Date(Date.now() - 2 * 3600000);
+      for (const shot of shots) utimesSync(shot, old, old);
+
+      await artifacts({ action: "prune" });
+
+      expect(shots.every((shot) => existsSync(shot))).toBe(true);
+    });
+
+    it("counts kept files toward the disk budget but only evicts deletable ones", async () => {
+      mockApi.config.trace = { screenshots: true };
+      register(mockApi);
+      await registeredTools.get("ab_open").execute("id", { session: "prune-kept", url: "https://example.com" });
+      await registeredTools.get("ab_click").execute("id", { session: "prune-kept", selector: "#go" });
+      const shots = readdirSync(join(pluginTempDir, "trace")).map((f) => join(pluginTempDir, "trace", f));
+      const old = new Date(Date.now() - 3600000);
+      for (const shot of shots) utimesSync(shot, old, old);
+      for (const label of ["a", "b"]) {
+        await registeredTools.get("ab_screenshot").execute("id", { session: "prune-kept", label });
+      }
+      utimesSync(join(pluginTempDir, "prune-kept-a.png"), new Date(Date.now() - 60000), new Date(Date.now() - 60000));
+
+      // Budget is 8 bytes short of every artifact on disk: the unkept screenshots alone fit, but
+      // the trace screenshots push the total over, so the oldest deletable file has to go
+      const onDisk = (readdirSync(pluginTempDir, { recursive: true }) as string[])
+        .filter((f) => f !== "artifacts.json")
+        .map((f) => statSync(join(pluginTempDir, f)))
+        .filter((st) => st.isFile())
+        .reduce((sum, st) => sum + st.size, 0);
+      mockApi.config.retention = { maxTotalMB: (onDisk - 8) / (1024 * 1024) };
+
+      const result = await artifacts({ action: "prune" });
+
+      expect(result).toEqual({ deleted: 1, freedBytes: 8 });
+      expect(existsSync(join(pluginTempDir, "prune-kept-a.png"))).toBe(false);
+      expect(existsSync(join(pluginTempDir, "prune-kept-b.png"))).toBe(true);
+      expect(shots.every((shot) => existsSync(shot))).toBe(true);
+    });
   });
 
   describe("ab_close", () => {
@@ -1,32 +1,61 @@
 /**
  * OpenClaw Agent Browser Plugin
  *
- * Wraps agent-browser as native OpenClaw tools with automatic R2 upload
- * for screenshots and video recordings.
+ * Wraps agent-browser as native OpenClaw tools with automatic upload
+ * (R2, S3-compatible, or local directory) for screenshots and video recordings.
  *
  * Tools:
  * - browser_open: Navigate to URL
  * - browser_navigate: back, forward, reload
- * - browser_snapshot: Get accessibility tree with refs
+ * - browser_snapshot: Get accessibility tree with refs (full or diff)
  * - browser_click: Click element
  * - browser_fill: Fill input field
+ * - browser_fill_form: Fill a whole form from a label/name -> value map
  * - browser_interact: hover, focus, drag, scroll, type, press, select, check/uncheck
+ * - browser_wait: Wait for element, text, URL, network idle or JS condition
  * - browser_query: gettext, isvisible, title, url
- * - browser_screenshot: Take screenshot (with device emulation)
+ * - browser_extract: Tables, lists and forms to JSON with pagination
+ * - browser_assert: Typed assertions with pass/fail verdicts
+ * - browser_screenshot: Take screenshot (device emulation, element crop, ref annotations)
+ * - browser_screenshot_matrix: Responsive captures across devices with a contact sheet
+ * - browser_visual_compare: Baseline screenshots and pixel diffs
  * - browser_record_start/stop: Video recording
+ * - browser_network: Network capture, failure summary, HAR export
+ * - browser_console: Console messages, page exceptions, failed loads
+ * - browser_mock: Request mocking (fulfill, abort, delay, header rewrite)
+ * - browser_trace: Per-session call timeline, JSON/HTML export, replay
+ * - browser_export_test: Playwright spec generated from the session's actions
+ * - browser_report: Self-contained HTML + markdown report of a session
+ * - browser_artifacts: Artifact registry (ID, hash, size); list, get, delete, prune
+ * - browser_a11y_audit: Accessibility rule checks with grouped violations
+ * - browser_session_save/load: Persistent cookie + storage profiles
  * - browser_tabs: Tab management
  * - browser_settings: viewport, device
  * - browser_close: Close session
  * - browser_advanced: Escape hatch for all 50+ actions
+ * - browser_run: Batch several tool steps into one call
  */
 
 import { BrowserManager } from "agent-browser/dist/browser.js";
 import { executeCommand } from "agent-browser/dist/actions.js";
-import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
-import { execSync } from "child_process";
-import { readFileSync, existsSync, mkdirSync } from "fs";
-import { join } from "path";
-import { tmpdir } from "os";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { PNG } from "pngjs";
+import pixelmatch from "pixelmatch";
+import { execFile } from "child_process";
+import { createHash, randomBytes } from "crypto";
+import { readFileSync, writeFileSync, existsSync, mkdirSync, copyFileSync, readdirSync, statSync, unlinkSync, openSync, readSync, closeSync } from "fs";
+import { join, dirname, resolve, sep } from "path";
+import { pathToFileURL } from "url";
+import { tmpdir, homedir } from "os";
 
 // All available actions for browser_advanced
 const AVAILABLE_ACTIONS = [
@@ -50,20 +79,170 @@ interface PluginConfig {
     accountId: string;
     bucket: string;
     publicDomain?: string;
+    jurisdiction?: string;
   };
+  storage?: StorageConfig;
   headless?: boolean;
   viewport?: { width: number; height: number };
   gif?: { enabled: boolean };
-  video?: { speedUpAfter: number; maxSpeedup: number };
+  video?: {
+    speedUpAfter?: number;
+    maxSpeedup?: number;
+    format?: "webm" | "mp4";
+    trimIdle?: boolean;
+  };
+  annotations?: { enabled?: boolean; holdMs?: number };
+  profilesDir?: string;
+  baselinesDir?: string;
+  fixturesDir?: string;
+  tracesDir?: string;
+  testsDir?: string;
+  trace?: { screenshots?: boolean };
+  retention?: { maxAgeHours?: number; maxTotalMB?: number };
   maxConcurrent?: number;
   idleTimeoutMs?: number;
 }
 
+interface StorageConfig {
+  backend?: "r2" | "s3" | "local";
+  prefix?: string;
+  s3?: {
+    bucket: string;
+    region?: string;
+    endpoint?: string;
+    forcePathStyle?: boolean;
+    publicBaseUrl?: string;
+  };
+  local?: {
+    dir: string;
+    baseUrl?: string;
+  };
+  keyTemplate?: string;
+  presign?: { enabled?: boolean; expiresInSec?: number };
+  upload?: {
+    retries?: number;
+    retryDelayMs?: number;
+    multipartThresholdMB?: number;
+    partSizeMB?: number;
+  };
+}
+
+// Storage backend for screenshots, recordings and other artifacts
+interface ArtifactStore {
+  kind: "r2" | "s3" | "local";
+  put(localPath: string, key: string, contentType: string): Promise<string>;
+  // Set when returned URLs are presigned: re-sign an existing key, and how long URLs stay valid
+  presignUrl?(key: string): Promise<string>;
+  urlExpiresInSec?: number;
+}
+
+interface S3UploadOptions {
+  retries: number;
+  retryDelayMs: number;
+  multipartThreshold: number;
+  partSize: number;
+  presignExpiresInSec?: number;
+}
+
 interface SessionState {
+  name: string;
   browser: BrowserManager;
   lastActivity: number;
   recording: boolean;
   recordingPath?: string;
+  // Last device applied via ab_settings/ab_screenshot, so ab_screenshot_matrix can put it back
+  device?: string;
+  annotate: boolean;
+  step: number;
+  profile?: string;
+  network?: NetworkCapture;
+  logs: LogEntry[];
+  mocks: Map<number, MockRule>;
+  lastSnapshot?: { tree: string; options: string; lastRef?: number };
+  snapshotGeneration: number;
+  snapshotRefs?: { generation: number; url: string; refs: Map<string, SnapshotRef> };
+  trace: TraceEntry[];
+  traceSeq: number;
+  traceScreenshots: boolean;
+  artifacts: ArtifactRecord[];
+}
+
+interface ArtifactRecord {
+  id: string;
+  session: string;
+  name: string;
+  path: string;
+  url: string | null;
+  contentType: string;
+  size: number;
+  sha256: string;
+  createdAt: string;
+  key?: string;
+  urlExpiresAt?: string;
+  uploadError?: string;
+}
+
+interface UploadResult {
+  url: string | null;
+  uploadError?: string;
+}
+
+interface MockRule {
+  id: number;
+  pattern: string;
+  method?: string;
+  respond: "fulfill" | "abort" | "continue";
+  status?: number;
+  body?: string | Buffer;
+  contentType?: string;
+  fixture?: string;
+  errorCode?: string;
+  delayMs?: number;
+  requestHeaders?: Record<string, string>;
+  responseHeaders?: Record<string, string>;
+  hits: number;
+  handler: (route: any) => Promise<void>;
+}
+
+interface LogEntry {
+  id: number;
+  level: "log" | "debug" | "info" | "warning" | "error" | "pageerror" | "network";
+  text: string;
+  url?: string;
+  timestamp: number;
+}
+
+interface NetworkEntry {
+  id: number;
+  url: string;
+  method: string;
+  resourceType: string;
+  startedAt: number;
+  durationMs?: number;
+  status?: number;
+  statusText?: string;
+  mimeType?: string;
+  requestHeaders: Record<string, string>;
+  responseHeaders?: Record<string, string>;
+  failure?: string;
+}
+
+interface NetworkCapture {
+  capturing: boolean;
+  entries: NetworkEntry[];
+  detach: () => void;
+}
+
+// Saved cookies + storage, restored into new sessions to skip logging in again
+interface SessionProfile {
+  name: string;
+  savedAt: string;
+  cookies: any[];
+  origins: Array<{
+    origin: string;
+    localStorage: Record<string, string>;
+    sessionStorage: Record<string, string>;
+  }>;
 }
 
 // Session management
@@ -73,12 +252,119 @@ const sessions = new Map<string, SessionState>();
 export function _testClearSessions() {
   sessions.clear();
 }
-let s3Client: S3Client | null = null;
+let artifactStore: ArtifactStore | null = null;
 let pluginConfig: PluginConfig = {};
 
-// Initialize S3 client for R2
-function initR2Client(config: PluginConfig): S3Client | null {
-  if (!config.r2?.accountId || !config.r2?.bucket) {
+// Every file handed to uploadArtifact, by ID; persisted next to the files so retention survives restarts
+const artifactRegistry = new Map<string, ArtifactRecord>();
+let artifactManifestPath: string | null = null;
+
+// Retry transient storage failures with exponential backoff; 4xx responses (other than 408/429) fail fast
+async function withRetry<T>(label: string, fn: () => Promise<T>, retries: number, baseDelayMs: number): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (e: any) {
+      const status = e?.$metadata?.httpStatusCode;
+      const permanent = status >= 400 && status < 500 && status !== 408 && status !== 429;
+      if (permanent || attempt >= retries) {
+        throw new Error(`${label} failed after ${attempt + 1} attempt${attempt ? "s" : ""}: ${e?.message ?? e}`);
+      }
+      const delay = Math.round(baseDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5));
+      console.warn(`[agent-browser] ${label} failed (${e?.message ?? e}), retrying in ${delay}ms`);
+      await new Promise((r) => setTimeout(r, delay));
+    }
+  }
+}
+
+function s3UploadOptions(config: PluginConfig): S3UploadOptions {
+  const upload = config.storage?.upload ?? {};
+  const presign = config.storage?.presign;
+  return {
+    retries: upload.retries ?? 3,
+    retryDelayMs: upload.retryDelayMs ?? 500,
+    multipartThreshold: (upload.multipartThresholdMB ?? 16) * 1024 * 1024,
+    // S3 rejects parts under 5 MB (except the last one)
+    partSize: Math.max(5, upload.partSizeMB ?? 8) * 1024 * 1024,
+    // Presigned GET URLs are valid for at most 7 days
+    ...(presign?.enabled ? { presignExpiresInSec: Math.min(presign.expiresInSec ?? 3600, 604800) } : {}),
+  };
+}
+
+// Upload in parts, reading one part at a time; a failed upload is aborted so no parts linger in the bucket
+async function multipartUpload(
+  client: S3Client,
+  bucket: string,
+  key: string,
+  localPath: string,
+  size: number,
+  contentType: string,
+  options: S3UploadOptions
+): Promise<void> {
+  const retry = <T>(label: string, fn: () => Promise<T>) => withRetry(label, fn, options.retries, options.retryDelayMs);
+  const { UploadId } = await retry(`Start multipart upload of ${key}`, () =>
+    client.send(new CreateMultipartUploadCommand({ Bucket: bucket, Key: key, ContentType: contentType }))
+  );
+
+  const fd = openSync(localPath, "r");
+  try {
+    const parts: Array<{ ETag?: string; PartNumber: number }> = [];
+    for (let partNumber = 1, offset = 0; offset < size; partNumber++, offset += options.partSize) {
+      const body = Buffer.alloc(Math.min(options.partSize, size - offset));
+      readSync(fd, body, 0, body.length, offset);
+      const { ETag } = await retry(`Upload part ${partNumber} of ${key}`, () =>
+        client.send(new UploadPartCommand({ Bucket: bucket, Key: key, UploadId, PartNumber: partNumber, Body: body }))
+      );
+      parts.push({ ETag, PartNumber: partNumber });
+    }
+    await retry(`Complete multipart upload of ${key}`, () =>
+      client.send(new CompleteMultipartUploadCommand({ Bucket: bucket, Key: key, UploadId, MultipartUpload: { Parts: parts } }))
+    );
+  } catch (e) {
+    await client.send(new AbortMultipartUploadCommand({ Bucket: bucket, Key: key, UploadId })).catch(() => {});
+    throw e;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+// Create an S3-compatible store (R2, AWS S3, MinIO, GCS interop)
+function createS3Store(
+  kind: "r2" | "s3",
+  client: S3Client,
+  bucket: string,
+  publicUrl: (key: string) => string,
+  options: S3UploadOptions
+): ArtifactStore {
+  const expiresIn = options.presignExpiresInSec;
+  const presignUrl = (key: string) =>
+    getSignedUrl(client, new GetObjectCommand({ Bucket: bucket, Key: key }), { expiresIn });
+
+  return {
+    kind,
+    async put(localPath, key, contentType) {
+      const size = statSync(localPath).size;
+      if (size > options.multipartThreshold) {
+        await multipartUpload(client, bucket, key, localPath, size, contentType, options);
+      } else {
+        const body = readFileSync(localPath);
+        await withRetry(
+          `Upload of ${key}`,
+          () => client.send(new PutObjectCommand({ Bucket: bucket, Key: key, Body: body, ContentType: contentType })),
+          options.retries,
+          options.retryDelayMs
+        );
+      }
+      return expiresIn ? presignUrl(key) : publicUrl(key);
+    },
+    ...(expiresIn ? { presignUrl, urlExpiresInSec: expiresIn } : {}),
+  };
+}
+
+// Initialize Cloudflare R2 store
+function initR2Store(config: PluginConfig): ArtifactStore | null {
+  const r2 = config.r2;
+  if (!r2?.accountId || !r2?.bucket) {
     return null;
   }
 
@@ -92,11 +378,144 @@ function initR2Client(config: PluginConfig): S3Client | null {
     return null;
   }
 
-  return new S3Client({
+  const client = new S3Client({
     region: "auto",
-    endpoint: `https://${config.r2.accountId}${config.r2.jurisdiction ? "." + config.r2.jurisdiction : ""}.r2.cloudflarestorage.com`,
+    endpoint: `https://${r2.accountId}${r2.jurisdiction ? "." + r2.jurisdiction : ""}.r2.cloudflarestorage.com`,
     credentials: { accessKeyId, secretAccessKey },
   });
+
+  return createS3Store("r2", client, r2.bucket, (key) =>
+    r2.publicDomain
+      ? `https://${r2.publicDomain}/${key}`
+      : `https://${r2.bucket}.${r2.accountId}.r2.dev/${key}`,
+    s3UploadOptions(config)
+  );
+}
+
+// Initialize generic S3 store (AWS S3, MinIO, GCS interop, ...)
+function initS3Store(config: PluginConfig): ArtifactStore | null {
+  const s3 = config.storage?.s3;
+  if (!s3?.bucket) {
+    console.warn("[agent-browser] storage.backend is \"s3\" but storage.s3.bucket not set");
+    return null;
+  }
+
+  const region = s3.region ?? process.env.AWS_REGION ?? "us-east-1";
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+
+  // Without explicit keys, fall back to the AWS SDK default credential chain
+  const client = new S3Client({
+    region,
+    ...(s3.endpoint ? { endpoint: s3.endpoint } : {}),
+    forcePathStyle: s3.forcePathStyle ?? false,
+    ...(accessKeyId && secretAccessKey ? { credentials: { accessKeyId, secretAccessKey } } : {}),
+  });
+
+  return createS3Store("s3", client, s3.bucket, (key) => {
+    if (s3.publicBaseUrl) {
+      return `${s3.publicBaseUrl.replace(/\/+$/, "")}/${key}`;
+    }
+    if (s3.endpoint) {
+      const endpoint = s3.endpoint.replace(/\/+$/, "");
+      if (s3.forcePathStyle) {
+        return `${endpoint}/${s3.bucket}/${key}`;
+      }
+      const url = new URL(endpoint);
+      return `${url.protocol}//${s3.bucket}.${url.host}/${key}`;
+    }
+    return `https://${s3.bucket}.s3.${region}.amazonaws.com/${key}`;
+  }, s3UploadOptions(config));
+}
+
+// Initialize local-directory store (files served by an external static server)
+function initLocalStore(config: PluginConfig): ArtifactStore | null {
+  const local = config.storage?.local;
+  if (!local?.dir) {
+    console.warn("[agent-browser] storage.backend is \"local\" but storage.local.dir not set");
+    return null;
+  }
+
+  const root = resolve(local.dir);
+  return {
+    kind: "local",
+    async put(localPath, key, _contentType) {
+      const target = join(root, key);
+      if (!target.startsWith(root + sep)) {
+        throw new Error(`Artifact key escapes storage directory: ${key}`);
+      }
+      mkdirSync(dirname(target), { recursive: true });
+      copyFileSync(localPath, target);
+      return local.baseUrl
+        ? `${local.baseUrl.replace(/\/+$/, "")}/${key}`
+        : pathToFileURL(target).href;
+    },
+  };
+}
+
+// Pick the artifact store from config. Plain `r2` config keeps working without `storage`.
+function initArtifactStore(config: PluginConfig): ArtifactStore | null {
+  const backend = config.storage?.backend ?? (config.r2 ? "r2" : undefined);
+  switch (backend) {
+    case "r2":
+      return initR2Store(config);
+    case "s3":
+      return initS3Store(config);
+    case "local":
+      return initLocalStore(config);
+    default:
+      return null;
+  }
+}
+
+const MAX_LOG_ENTRIES = 1000;
+
+// Buffer console messages, uncaught page errors and failed resource loads
+function attachLogCollector(session: SessionState): void {
+  let nextId = 1;
+  const push = (entry: Omit<LogEntry, "id" | "timestamp">) => {
+    session.logs.push({ id: nextId++, timestamp: Date.now(), ...entry });
+    if (session.logs.length > MAX_LOG_ENTRIES) {
+      session.logs.splice(0, session.logs.length - MAX_LOG_ENTRIES);
+    }
+  };
+
+  let context: any;
+  try {
+    context = session.browser.getPage().context();
+  } catch (e) {
+    console.warn("[agent-browser] Console log collection unavailable:", e);
+    return;
+  }
+
+  context.on("console", (msg: any) => {
+    const type = msg.type();
+    const level: LogEntry["level"] =
+      type === "error" || type === "warning" || type === "info" || type === "debug" ? type : "log";
+    const location = msg.location?.();
+    push({ level, text: msg.text(), ...(location?.url ? { url: location.url } : {}) });
+  });
+  context.on("weberror", (webError: any) => {
+    const error = webError.error();
+    push({ level: "pageerror", text: error?.stack || error?.message || String(error) });
+  });
+  context.on("requestfailed", (request: any) => {
+    push({ level: "network", text: `${request.method()} ${request.failure()?.errorText ?? "failed"}`, url: request.url() });
+  });
+  context.on("response", (response: any) => {
+    if (response.status() >= 400) {
+      push({ level: "network", text: `${response.request().method()} ${response.status()} ${response.statusText()}`, url: response.url() });
+    }
+  });
+}
+
+function countLogErrors(logs: LogEntry[]): Record<string, number> {
+  return {
+    error: logs.filter((l) => l.level === "error").length,
+    warning: logs.filter((l) => l.level === "warning").length,
+    pageerror: logs.filter((l) => l.level === "pageerror").length,
+    network: logs.filter((l) => l.level === "network").length,
+  };
 }
 
 // Get or create session
@@ -121,10 +540,21 @@ async function getSession(
     });
 
     session = {
+      name: sessionName,
       browser,
       lastActivity: Date.now(),
       recording: false,
+      annotate: false,
+      step: 0,
+      logs: [],
+      mocks: new Map(),
+      snapshotGeneration: 0,
+      trace: [],
+      traceSeq: 0,
+      traceScreenshots: config.trace?.screenshots ?? false,
+      artifacts: [],
     };
+    attachLogCollector(session);
     sessions.set(sessionName, session);
   }
 
@@ -132,379 +562,4792 @@ async function getSession(
   return session;
 }
 
-// Upload file to R2
-async function uploadToR2(
+// Expand a storage key template: {session}, {date}, {time}, {label}, {name}, {ext}, {id}.
+// The file extension is appended when the template doesn't end with it.
+function renderKeyTemplate(template: string, remoteName: string, sessionName: string, id: string, now = new Date()): string {
+  const dot = remoteName.lastIndexOf(".");
+  const ext = dot > 0 ? remoteName.slice(dot + 1) : "";
+  const base = dot > 0 ? remoteName.slice(0, dot) : remoteName;
+  const values: Record<string, string> = {
+    session: sessionName,
+    date: now.toISOString().slice(0, 10),
+    time: now.toISOString().slice(11, 19).replace(/:/g, ""),
+    label: base.startsWith(`${sessionName}-`) ? base.slice(sessionName.length + 1) : base,
+    name: remoteName,
+    ext,
+    id,
+  };
+  const key = template.replace(/\{(\w+)\}/g, (match, name) => values[name] ?? match).replace(/^\/+/, "");
+  return ext && !key.endsWith(`.${ext}`) ? `${key}.${ext}` : key;
+}
+
+// Upload file to the configured artifact store and record it in the registry. A failed upload
+// (after the store's own retries) keeps the local file and is reported, not thrown.
+async function uploadArtifact(
   localPath: string,
   remoteName: string,
-  contentType: string
-): Promise<string | null> {
-  if (!s3Client || !pluginConfig.r2) {
-    return null;
+  contentType: string,
+  session?: SessionState,
+  inSessionReport = true
+): Promise<UploadResult> {
+  const id = `art_${randomBytes(6).toString("hex")}`;
+  let url: string | null = null;
+  let key: string | undefined;
+  let uploadError: string | undefined;
+  if (artifactStore) {
+    const prefix = (pluginConfig.storage?.prefix ?? "agent-browser").replace(/^\/+|\/+$/g, "");
+    const name = renderKeyTemplate(pluginConfig.storage?.keyTemplate ?? "{name}", remoteName, session?.name ?? "shared", id);
+    key = prefix ? `${prefix}/${name}` : name;
+    try {
+      url = await artifactStore.put(localPath, key, contentType);
+    } catch (e: any) {
+      uploadError = e?.message ?? String(e);
+      console.error(`[agent-browser] Upload of ${key} failed:`, uploadError);
+    }
+  }
+
+  if (session && existsSync(localPath)) {
+    const data = readFileSync(localPath);
+    const record: ArtifactRecord = {
+      id,
+      session: session.name,
+      name: remoteName,
+      path: localPath,
+      url,
+      contentType,
+      size: data.length,
+      sha256: createHash("sha256").update(data).digest("hex"),
+      createdAt: new Date().toISOString(),
+      ...(key ? { key } : {}),
+      ...(url && artifactStore?.urlExpiresInSec
+        ? { urlExpiresAt: new Date(Date.now() + artifactStore.urlExpiresInSec * 1000).toISOString() }
+        : {}),
+      ...(uploadError ? { uploadError } : {}),
+    };
+    artifactRegistry.set(record.id, record);
+    saveArtifactManifest();
+    if (inSessionReport) session.artifacts.push(record);
   }
+  return { url, ...(uploadError ? { uploadError } : {}) };
+}
+
+// Closing line for text results that only have a local copy
+function noUrlNote(upload: UploadResult): string {
+  return upload.uploadError
+    ? `Upload failed (${upload.uploadError}) — no public URL available.`
+    : "Artifact storage not configured — no public URL available.";
+}
 
-  const fileBuffer = readFileSync(localPath);
-  const key = `agent-browser/${remoteName}`;
+// `${session}-${label}.png` collides when a label is reused; append -2, -3, ... instead of overwriting
+function uniqueFilename(dir: string, filename: string): string {
+  const dot = filename.lastIndexOf(".");
+  const base = dot > 0 ? filename.slice(0, dot) : filename;
+  const ext = dot > 0 ? filename.slice(dot) : "";
+  let candidate = filename;
+  for (let n = 2; existsSync(join(dir, candidate)); n++) {
+    candidate = `${base}-${n}${ext}`;
+  }
+  return candidate;
+}
 
-  await s3Client.send(
-    new PutObjectCommand({
-      Bucket: pluginConfig.r2.bucket,
-      Key: key,
-      Body: fileBuffer,
-      ContentType: contentType,
-    })
-  );
+function loadArtifactManifest(path: string): void {
+  artifactManifestPath = path;
+  artifactRegistry.clear();
+  if (!existsSync(path)) return;
+  try {
+    for (const record of JSON.parse(readFileSync(path, "utf-8")) as ArtifactRecord[]) {
+      if (existsSync(record.path)) artifactRegistry.set(record.id, record);
+    }
+  } catch (e) {
+    console.error("[agent-browser] Ignoring unreadable artifact manifest:", e);
+  }
+}
+
+function saveArtifactManifest(): void {
+  if (!artifactManifestPath) return;
+  writeFileSync(artifactManifestPath, JSON.stringify([...artifactRegistry.values()], null, 2));
+}
+
+// Drop registry entries (and session report lists) whose files are gone
+function forgetArtifacts(paths: Set<string>): void {
+  if (!paths.size) return;
+  for (const [id, record] of artifactRegistry) {
+    if (paths.has(record.path)) artifactRegistry.delete(id);
+  }
+  for (const session of sessions.values()) {
+    session.artifacts = session.artifacts.filter((a) => !paths.has(a.path));
+  }
+  saveArtifactManifest();
+}
+
+function listFiles(dir: string): Array<{ path: string; size: number; mtimeMs: number }> {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) return listFiles(path);
+    if (!entry.isFile()) return [];
+    const stat = statSync(path);
+    return [{ path, size: stat.size, mtimeMs: stat.mtimeMs }];
+  });
+}
 
-  // Return public URL
-  if (pluginConfig.r2.publicDomain) {
-    return `https://${pluginConfig.r2.publicDomain}/${key}`;
+// Delete files older than maxAgeHours, then the oldest files until the directory fits maxTotalMB (0/unset = no limit)
+function enforceRetention(
+  dir: string,
+  policy: { maxAgeHours?: number; maxTotalMB?: number },
+  keep: Set<string>,
+  now = Date.now()
+): { deleted: string[]; freedBytes: number } {
+  // Kept files still count toward the disk budget; they just can't be evicted. The artifact
+  // manifest is bookkeeping, not an artifact, so it is neither counted nor deleted.
+  const files = listFiles(dir)
+    .filter((f) => f.path !== artifactManifestPath)
+    .sort((a, b) => a.mtimeMs - b.mtimeMs);
+  const deletable = (file: { path: string }) => !keep.has(file.path);
+  const deleted: string[] = [];
+  let freedBytes = 0;
+  const remove = (file: { path: string; size: number }) => {
+    try {
+      unlinkSync(file.path);
+      deleted.push(file.path);
+      freedBytes += file.size;
+    } catch {}
+  };
+
+  let remaining = files;
+  if (policy.maxAgeHours) {
+    const cutoff = now - policy.maxAgeHours * 3600000;
+    files.filter((f) => deletable(f) && f.mtimeMs < cutoff).forEach(remove);
+    remaining = files.filter((f) => !deletable(f) || f.mtimeMs >= cutoff);
+  }
+  if (policy.maxTotalMB) {
+    const budget = policy.maxTotalMB * 1024 * 1024;
+    let total = remaining.reduce((sum, f) => sum + f.size, 0);
+    for (const file of remaining) {
+      if (total <= budget) break;
+      if (!deletable(file)) continue;
+      remove(file);
+      total -= file.size;
+    }
   }
-  return `https://${pluginConfig.r2.bucket}.${pluginConfig.r2.accountId}.r2.dev/${key}`;
+
+  forgetArtifacts(new Set(deleted));
+  return { deleted, freedBytes };
+}
+
+// Run ffmpeg/ffprobe with an argument list: no shell, so recording paths built from agent-supplied
+// labels can't inject commands, and long encodes don't block the event loop
+function runFfmpeg(file: "ffmpeg" | "ffprobe", args: string[]): Promise<{ stdout: string; stderr: string }> {
+  return new Promise((resolvePromise, reject) => {
+    execFile(file, args, { maxBuffer: 64 * 1024 * 1024 }, (error: any, stdout: any, stderr: any) => {
+      if (error) reject(error);
+      else resolvePromise({ stdout: String(stdout), stderr: String(stderr) });
+    });
+  });
 }
 
 // Convert video to GIF using ffmpeg
-function convertToGif(inputPath: string, outputPath: string): void {
-  const cmd = `ffmpeg -y -i "${inputPath}" -vf "fps=10,scale=480:-1:flags=lanczos" "${outputPath}"`;
-  execSync(cmd, { stdio: "pipe" });
+async function convertToGif(inputPath: string, outputPath: string): Promise<void> {
+  await runFfmpeg("ffmpeg", ["-y", "-i", inputPath, "-vf", "fps=10,scale=480:-1:flags=lanczos", outputPath]);
 }
 
-// Plugin registration
-export default function register(api: any) {
-  pluginConfig = api.config?.plugins?.entries?.["agent-browser-plugin"]?.config || api.config || {};
-  s3Client = initR2Client(pluginConfig);
+// Measure video duration in seconds. Recorded WebMs often lack a duration
+// header, so fall back to decoding the stream and reading the last timestamp.
+async function probeDuration(inputPath: string): Promise<number> {
+  const probed = (await runFfmpeg("ffprobe", [
+    "-v", "error", "-show_entries", "format=duration", "-of", "default=noprint_wrappers=1:nokey=1", inputPath,
+  ])).stdout.trim();
+  const duration = parseFloat(probed);
+  if (Number.isFinite(duration)) {
+    return duration;
+  }
 
-  // Ensure temp directory
-  // Use /tmp/openclaw/ to comply with OpenClaw mediaLocalRoots security (CVE-2026-25475)
-  const tempDir = join(tmpdir(), "openclaw", "agent-browser-plugin");
-  if (!existsSync(tempDir)) {
-    mkdirSync(tempDir, { recursive: true });
+  const decoded = (await runFfmpeg("ffmpeg", ["-i", inputPath, "-f", "null", "-"])).stderr;
+  const times = [...decoded.matchAll(/time=(\d+):(\d+):(\d+(?:\.\d+)?)/g)];
+  const last = times[times.length - 1];
+  if (!last) {
+    throw new Error(`Could not determine duration of ${inputPath}`);
   }
+  return Number(last[1]) * 3600 + Number(last[2]) * 60 + Number(last[3]);
+}
 
-  // ========== CORE TOOLS ==========
+// Speed-up factor for a recording: compress anything past speedUpAfter seconds
+// back towards that length, bounded by maxSpeedup
+function computeSpeedup(durationSec: number, config: PluginConfig): number {
+  const speedUpAfter = config.video?.speedUpAfter ?? 60;
+  const maxSpeedup = config.video?.maxSpeedup ?? 4;
+  if (speedUpAfter <= 0 || durationSec <= speedUpAfter) {
+    return 1;
+  }
+  return Math.round(Math.min(maxSpeedup, durationSec / speedUpAfter) * 100) / 100;
+}
 
-  // browser_open - Navigate to URL
-  api.registerTool({
-    name: "ab_open",
-    description: "Open a URL in the browser. Creates a new session if needed.",
-    parameters: {
-      type: "object",
-      properties: {
-        session: { type: "string", description: "Session name (e.g. 'pr-12345')" },
-        url: { type: "string", description: "URL to navigate to" },
-        waitUntil: {
-          type: "string",
-          enum: ["load", "domcontentloaded", "networkidle"],
-          default: "load",
-        },
-      },
-      required: ["session", "url"],
-    },
-    async execute(_id: string, params: any) {
-      const session = await getSession(params.session, pluginConfig);
+interface ProcessedRecording {
+  path: string;
+  contentType: string;
+  durationSec: number;
+  outputDurationSec: number;
+  speedup: number;
+  trimmed: boolean;
+}
+
+// Whether any post-processing is configured (speed-up is on unless speedUpAfter <= 0)
+function recordingNeedsProcessing(config: PluginConfig): boolean {
+  return (config.video?.trimIdle ?? false)
+    || (config.video?.format ?? "webm") !== "webm"
+    || (config.video?.speedUpAfter ?? 60) > 0;
+}
+
+// ffmpeg/ffprobe are optional; checked once per plugin start so hosts without them skip processing quietly
+let ffmpegAvailable: boolean | null = null;
+async function hasFfmpeg(): Promise<boolean> {
+  if (ffmpegAvailable === null) {
+    try {
+      await runFfmpeg("ffprobe", ["-version"]);
+      await runFfmpeg("ffmpeg", ["-version"]);
+      ffmpegAvailable = true;
+    } catch {
+      ffmpegAvailable = false;
+      console.log("[agent-browser] ffmpeg/ffprobe not found; recordings are uploaded without processing");
+    }
+  }
+  return ffmpegAvailable;
+}
+
+// Post-process a recording: drop idle (duplicate) frames, apply the bounded
+// speed-up, and transcode to the configured container. The file is returned
+// as-is when there is nothing to trim, speed up or convert.
+async function processRecording(inputPath: string, config: PluginConfig): Promise<ProcessedRecording> {
+  const format = config.video?.format ?? "webm";
+  const durationSec = await probeDuration(inputPath);
+  const base = inputPath.replace(/\.[^./]+$/, "");
+
+  let sourcePath = inputPath;
+  let sourceDuration = durationSec;
+  const trimmed = config.video?.trimIdle ?? false;
+  if (trimmed) {
+    const trimmedPath = `${base}-trimmed.webm`;
+    await runFfmpeg("ffmpeg", [
+      "-y", "-i", inputPath, "-vf", "mpdecimate,setpts=N/FRAME_RATE/TB", "-an", "-c:v", "libvpx-vp9", "-b:v", "0", "-crf", "35", trimmedPath,
+    ]);
+    sourcePath = trimmedPath;
+    sourceDuration = await probeDuration(trimmedPath);
+  }
+
+  const speedup = computeSpeedup(sourceDuration, config);
+  const sourceFormat = sourcePath.toLowerCase().endsWith(".mp4") ? "mp4" : "webm";
+  if (speedup === 1 && format === sourceFormat) {
+    return {
+      path: sourcePath,
+      contentType: `video/${format}`,
+      durationSec,
+      outputDurationSec: sourceDuration,
+      speedup,
+      trimmed,
+    };
+  }
+
+  const outputPath = `${base}-processed.${format}`;
+  const filter = speedup === 1 ? [] : ["-vf", `setpts=PTS/${speedup}`];
+  const codec = format === "mp4"
+    ? ["-c:v", "libx264", "-pix_fmt", "yuv420p", "-movflags", "+faststart"]
+    : ["-c:v", "libvpx-vp9", "-b:v", "0", "-crf", "35"];
+  await runFfmpeg("ffmpeg", ["-y", "-i", sourcePath, ...filter, "-an", ...codec, outputPath]);
+
+  return {
+    path: outputPath,
+    contentType: `video/${format}`,
+    durationSec,
+    outputDurationSec: Math.round((sourceDuration / speedup) * 10) / 10,
+    speedup,
+    trimmed,
+  };
+}
+
+const OVERLAY_ID = "__agent_browser_plugin_overlay__";
+// Overlays are best-effort, so element lookups give up quickly instead of waiting Playwright's default 30s
+const OVERLAY_LOOKUP_TIMEOUT_MS = 2000;
+
+// Draw step banner, click ripple and typed-text caption into the page so
+// recordings show what the agent did. Best-effort: never fails the action.
+async function annotateAction(
+  session: SessionState,
+  label: string,
+  options: { selector?: string; text?: string; ripple?: boolean } = {}
+): Promise<void> {
+  if (!session.recording || !session.annotate) {
+    return;
+  }
+  session.step += 1;
+
+  let box: { x: number; y: number; width: number; height: number } | null = null;
+  let text = options.text;
+  if (options.selector) {
+    try {
+      const locator = session.browser.getLocator(options.selector);
+      if (options.ripple) {
+        box = await locator.boundingBox({ timeout: OVERLAY_LOOKUP_TIMEOUT_MS });
+      }
+      if (text !== undefined && (await locator.getAttribute("type", { timeout: OVERLAY_LOOKUP_TIMEOUT_MS })) === "password") {
+        text = "•".repeat(Math.min(text.length, 12));
+      }
+    } catch {
+      // Element lookup failures surface from the action itself
+      if (text !== undefined) text = "•••";
+    }
+  }
+
+  const data = { id: OVERLAY_ID, step: session.step, label, text: text ?? null, box };
+  const script = `(() => {
+    var d = ${JSON.stringify(data)};
+    var root = document.getElementById(d.id);
+    if (!root) {
+      root = document.createElement('div');
+      root.id = d.id;
+      root.style.cssText = 'position:fixed;inset:0;pointer-events:none;z-index:2147483647;font:600 14px/1.4 system-ui,sans-serif;';
+      var style = document.createElement('style');
+      style.textContent = '@keyframes __ab_ripple{from{transform:scale(0.2);opacity:1}to{transform:scale(1.6);opacity:0}}';
+      root.appendChild(style);
+      document.documentElement.appendChild(root);
+    }
+    var banner = root.querySelector('[data-ab="banner"]');
+    if (!banner) {
+      banner = document.createElement('div');
+      banner.setAttribute('data-ab', 'banner');
+      banner.style.cssText = 'position:absolute;top:12px;left:50%;transform:translateX(-50%);background:rgba(17,24,39,0.88);color:#fff;padding:6px 14px;border-radius:999px;white-space:nowrap;max-width:90vw;overflow:hidden;text-overflow:ellipsis;';
+      root.appendChild(banner);
+    }
+    banner.textContent = 'Step ' + d.step + ': ' + d.label;
+    var old = root.querySelector('[data-ab="caption"]');
+    if (old) old.remove();
+    if (d.text !== null) {
+      var caption = document.createElement('div');
+      caption.setAttribute('data-ab', 'caption');
+      caption.textContent = '\u2328 ' + d.text;
+      caption.style.cssText = 'position:absolute;bottom:16px;left:50%;transform:translateX(-50%);background:rgba(37,99,235,0.92);color:#fff;padding:6px 14px;border-radius:8px;white-space:pre;max-width:90vw;overflow:hidden;text-overflow:ellipsis;';
+      root.appendChild(caption);
+      setTimeout(function () { caption.remove(); }, 2500);
+    }
+    if (d.box) {
+      var r = document.createElement('div');
+      var cx = d.box.x + d.box.width / 2;
+      var cy = d.box.y + d.box.height / 2;
+      r.style.cssText = 'position:absolute;left:' + (cx - 24) + 'px;top:' + (cy - 24) + 'px;width:48px;height:48px;border-radius:50%;border:3px solid rgba(239,68,68,0.95);background:rgba(239,68,68,0.25);animation:__ab_ripple 0.8s ease-out forwards;';
+      root.appendChild(r);
+      setTimeout(function () { r.remove(); }, 1000);
+    }
+  })()`;
+
+  await executeCommand(
+    { id: Date.now().toString(), action: "evaluate", script },
+    session.browser
+  ).catch(() => {});
+
+  // Give the recorder a few frames of the overlay before the page changes
+  const holdMs = pluginConfig.annotations?.holdMs ?? 400;
+  if (holdMs > 0) {
+    await new Promise((r) => setTimeout(r, holdMs));
+  }
+}
+
+const PROFILE_MARKER_KEY = "__agent_browser_profile__";
+
+// Names that become file names on disk (profiles, baselines)
+function assertSafeName(kind: string, name: string): void {
+  if (!/^[A-Za-z0-9_-]+$/.test(name ?? "")) {
+    throw new Error(`Invalid ${kind} name. Use only letters, numbers, dashes, and underscores.`);
+  }
+}
+
+function profilePath(name: string): string {
+  assertSafeName("profile", name);
+  const dir = pluginConfig.profilesDir ?? join(homedir(), ".openclaw", "agent-browser-plugin", "profiles");
+  return join(dir, `${name}.json`);
+}
+
+// Current page origin, or null for about:blank and other opaque origins
+async function currentOrigin(session: SessionState): Promise<string | null> {
+  const result = await executeCommand({ id: Date.now().toString(), action: "url" }, session.browser) as any;
+  try {
+    const origin = new URL(result.data?.url ?? "").origin;
+    return origin === "null" ? null : origin;
+  } catch {
+    return null;
+  }
+}
+
+// Save cookies plus the current origin's local/session storage into a named profile.
+// Storage for other origins already in the profile is kept.
+async function saveProfile(session: SessionState, name: string): Promise<SessionProfile> {
+  const path = profilePath(name);
+  const existing: SessionProfile | null = existsSync(path) ? JSON.parse(readFileSync(path, "utf8")) : null;
+
+  const cookies = await executeCommand(
+    { id: Date.now().toString(), action: "cookies_get" },
+    session.browser
+  ) as any;
+
+  const origins = existing?.origins ?? [];
+  const origin = await currentOrigin(session);
+  if (origin) {
+    const read = async (type: "local" | "session") => {
       const result = await executeCommand(
-        { id: Date.now().toString(), action: "navigate", url: params.url, waitUntil: params.waitUntil ?? "load" },
+        { id: Date.now().toString(), action: "storage_get", type },
         session.browser
-      );
-      return { content: [{ type: "text", text: JSON.stringify(result) }] };
-    },
-  });
+      ) as any;
+      const data = { ...(result.data?.data ?? {}) };
+      delete data[PROFILE_MARKER_KEY];
+      return data;
+    };
+    const entry = { origin, localStorage: await read("local"), sessionStorage: await read("session") };
+    const index = origins.findIndex((o) => o.origin === origin);
+    if (index >= 0) origins[index] = entry;
+    else origins.push(entry);
+  }
 
-  // browser_navigate - History navigation
-  api.registerTool({
-    name: "ab_navigate",
-    description: "Navigate browser history: back, forward, or reload the page",
+  const profile: SessionProfile = {
+    name,
+    savedAt: new Date().toISOString(),
+    cookies: cookies.data?.cookies ?? [],
+    origins,
+  };
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(profile, null, 2), { mode: 0o600 });
+  session.profile = name;
+  return profile;
+}
+
+// Restore a saved profile: cookies go straight into the context, storage is
+// seeded by an init script the first time each saved origin loads in a tab.
+async function loadProfile(session: SessionState, name: string): Promise<SessionProfile> {
+  const path = profilePath(name);
+  if (!existsSync(path)) {
+    throw new Error(`Profile not found: ${name}`);
+  }
+  const profile: SessionProfile = JSON.parse(readFileSync(path, "utf8"));
+
+  if (profile.cookies.length > 0) {
+    await executeCommand(
+      { id: Date.now().toString(), action: "cookies_set", cookies: profile.cookies },
+      session.browser
+    );
+  }
+
+  if (profile.origins.length > 0) {
+    const byOrigin = Object.fromEntries(profile.origins.map((o) => [o.origin, o]));
+    const seed = `(() => {
+      var origins = ${JSON.stringify(byOrigin)};
+      var marker = ${JSON.stringify(PROFILE_MARKER_KEY)};
+      var name = ${JSON.stringify(name)};
+      var entry = origins[location.origin];
+      if (!entry) return;
+      try {
+        if (sessionStorage.getItem(marker) === name) return;
+        Object.keys(entry.localStorage).forEach(function (k) { localStorage.setItem(k, entry.localStorage[k]); });
+        Object.keys(entry.sessionStorage).forEach(function (k) { sessionStorage.setItem(k, entry.sessionStorage[k]); });
+        sessionStorage.setItem(marker, name);
+      } catch (e) {}
+    })()`;
+    await executeCommand(
+      { id: Date.now().toString(), action: "addinitscript", script: seed },
+      session.browser
+    );
+
+    // The current page is already loaded, so seed it directly too
+    if (await currentOrigin(session)) {
+      await executeCommand({ id: Date.now().toString(), action: "evaluate", script: seed }, session.browser);
+    }
+  }
+
+  session.profile = name;
+  return profile;
+}
+
+// Resolve a dotted path ("data.items.0.name") inside a step result
+function getPath(value: any, path?: string): any {
+  if (!path) return value;
+  return path.split(".").reduce((acc, key) => (acc == null ? undefined : acc[key]), value);
+}
+
+// Replace {{var}} placeholders in step params with captured values
+function interpolate(value: any, vars: Record<string, any>): any {
+  if (typeof value === "string") {
+    const whole = value.match(/^\{\{\s*([\w.]+)\s*\}\}$/);
+    if (whole) {
+      const resolved = getPath(vars, whole[1]);
+      return resolved === undefined ? value : resolved;
+    }
+    return value.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, name) => {
+      const resolved = getPath(vars, name);
+      return resolved === undefined ? match : typeof resolved === "string" ? resolved : JSON.stringify(resolved);
+    });
+  }
+  if (Array.isArray(value)) return value.map((v) => interpolate(v, vars));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, interpolate(v, vars)]));
+  }
+  return value;
+}
+
+interface StepAssertion {
+  path?: string;
+  equals?: any;
+  contains?: string;
+  matches?: string;
+  truthy?: boolean;
+}
+
+// Check a simple assertion against a step result; returns a failure message or null
+function checkStepAssertion(result: any, assertion: StepAssertion): string | null {
+  const actual = getPath(result, assertion.path);
+  const where = assertion.path ? `'${assertion.path}'` : "result";
+  if ("equals" in assertion && JSON.stringify(actual) !== JSON.stringify(assertion.equals)) {
+    return `Expected ${where} to equal ${JSON.stringify(assertion.equals)}, got ${JSON.stringify(actual)}`;
+  }
+  if (assertion.contains !== undefined) {
+    const haystack = typeof actual === "string" ? actual : JSON.stringify(actual ?? "");
+    if (!haystack.includes(assertion.contains)) {
+      return `Expected ${where} to contain ${JSON.stringify(assertion.contains)}, got ${JSON.stringify(actual)}`;
+    }
+  }
+  if (assertion.matches !== undefined && !new RegExp(assertion.matches).test(String(actual ?? ""))) {
+    return `Expected ${where} to match /${assertion.matches}/, got ${JSON.stringify(actual)}`;
+  }
+  if (assertion.truthy !== undefined && Boolean(actual) !== assertion.truthy) {
+    return `Expected ${where} to be ${assertion.truthy ? "truthy" : "falsy"}, got ${JSON.stringify(actual)}`;
+  }
+  return null;
+}
+
+// Parse a tool's text content back into data (JSON where possible)
+function toolResultValue(toolResult: any): any {
+  const text = toolResult?.content?.[0]?.text;
+  if (typeof text !== "string") return toolResult;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+// Failure reason reported by a tool result, if any
+function toolResultError(value: any): string | null {
+  if (value && typeof value === "object") {
+    if (value.success === false) return value.error ?? "Action failed";
+    if (value.passed === false) return value.message ?? "Assertion failed";
+    if (value.waited === false) return value.error ?? "Wait failed";
+    if (typeof value.error === "string") return value.error;
+  }
+  return null;
+}
+
+type AssertionType =
+  | "text_contains" | "text_equals" | "visible" | "enabled" | "checked"
+  | "url_matches" | "title_matches" | "count" | "attribute";
+
+interface AssertionVerdict {
+  passed: boolean;
+  expected: any;
+  actual: any;
+  error?: string;
+}
+
+// Evaluate one typed assertion against the page using the query actions
+async function evaluateAssertion(session: SessionState, params: any): Promise<AssertionVerdict> {
+  const type: AssertionType = params.type;
+  const run = async (cmd: any) => {
+    const result = await executeCommand({ id: Date.now().toString(), ...cmd }, session.browser) as any;
+    if (result?.success === false) {
+      throw new Error(result.error ?? `${cmd.action} failed`);
+    }
+    return result?.data ?? {};
+  };
+
+  let expected = params.expected;
+  let actual: any;
+  let passed: boolean;
+  try {
+    switch (type) {
+      case "text_contains":
+      case "text_equals": {
+        const text = (await run({ action: "gettext", selector: params.selector })).text ?? "";
+        actual = type === "text_equals" ? String(text).trim() : text;
+        passed = type === "text_equals"
+          ? actual === String(expected ?? "").trim()
+          : String(actual).includes(String(expected ?? ""));
+        break;
+      }
+      case "visible":
+      case "enabled":
+      case "checked": {
+        const action = type === "visible" ? "isvisible" : type === "enabled" ? "isenabled" : "ischecked";
+        expected = expected ?? true;
+        actual = (await run({ action, selector: params.selector }))[type];
+        passed = actual === expected;
+        break;
+      }
+      case "url_matches":
+      case "title_matches": {
+        const action = type === "url_matches" ? "url" : "title";
+        actual = (await run({ action }))[action] ?? "";
+        passed = new RegExp(String(expected)).test(actual);
+        break;
+      }
+      case "count": {
+        expected = Number(expected);
+        actual = (await run({ action: "count", selector: params.selector })).count;
+        passed = actual === expected;
+        break;
+      }
+      case "attribute": {
+        actual = (await run({ action: "getattribute", selector: params.selector, attribute: params.attribute })).value ?? null;
+        passed = actual === (expected ?? null);
+        break;
+      }
+      default:
+        throw new Error(`Unknown assertion type: ${type}`);
+    }
+  } catch (e: any) {
+    return { passed: false, expected, actual: actual ?? null, error: e?.message ?? String(e) };
+  }
+
+  return { passed: params.not ? !passed : passed, expected, actual };
+}
+
+// Poll a check until it returns true or the timeout elapses
+async function pollUntil(check: () => Promise<boolean>, timeoutMs: number, intervalMs = 100): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (true) {
+    if (await check()) return true;
+    if (Date.now() >= deadline) return false;
+    await new Promise((r) => setTimeout(r, Math.min(intervalMs, Math.max(deadline - Date.now(), 0))));
+  }
+}
+
+// Run a wait condition; element states poll isvisible so refs and CSS both work
+async function waitForCondition(session: SessionState, params: any, timeoutMs: number): Promise<void> {
+  const run = async (cmd: any) => {
+    const result = await executeCommand({ id: Date.now().toString(), ...cmd }, session.browser) as any;
+    if (result?.success === false) {
+      throw new Error(result.error ?? `${cmd.action} failed`);
+    }
+    return result?.data ?? {};
+  };
+  const isVisible = async () => {
+    try {
+      return Boolean((await run({ action: "isvisible", selector: params.selector })).visible);
+    } catch {
+      return false;
+    }
+  };
+  const timedOut = () => new Error(`Timed out after ${timeoutMs}ms`);
+
+  switch (params.for) {
+    case "selector":
+      if (!(await pollUntil(isVisible, timeoutMs))) throw timedOut();
+      return;
+    case "hidden":
+      if (!(await pollUntil(async () => !(await isVisible()), timeoutMs))) throw timedOut();
+      return;
+    case "stable": {
+      // Stable = same bounding box on three consecutive polls
+      let last = "";
+      let same = 0;
+      const deadline = Date.now() + timeoutMs;
+      const stable = await pollUntil(async () => {
+        let box: any = null;
+        try {
+          box = await session.browser.getLocator(params.selector).boundingBox({ timeout: Math.max(1, deadline - Date.now()) });
+        } catch {
+          box = null;
+        }
+        const key = JSON.stringify(box);
+        same = box && key === last ? same + 1 : 0;
+        last = key;
+        return same >= 2;
+      }, timeoutMs);
+      if (!stable) throw timedOut();
+      return;
+    }
+    case "text":
+      await run({
+        action: "waitforfunction",
+        expression: `!!document.body && document.body.innerText.includes(${JSON.stringify(params.text ?? "")})`,
+        timeout: timeoutMs,
+      });
+      return;
+    case "url": {
+      // "/regex/" patterns are matched in the page, anything else is a Playwright glob
+      const regex = String(params.url ?? "").match(/^\/(.+)\/([a-z]*)$/);
+      if (regex) {
+        await run({
+          action: "waitforfunction",
+          expression: `new RegExp(${JSON.stringify(regex[1])}, ${JSON.stringify(regex[2])}).test(location.href)`,
+          timeout: timeoutMs,
+        });
+      } else {
+        await run({ action: "waitforurl", url: params.url, timeout: timeoutMs });
+      }
+      return;
+    }
+    case "networkidle":
+      await run({ action: "waitforloadstate", state: "networkidle", timeout: timeoutMs });
+      return;
+    case "function":
+      await run({ action: "waitforfunction", expression: params.expression, timeout: timeoutMs });
+      return;
+    default:
+      throw new Error(`Unknown wait condition: ${params.for}`);
+  }
+}
+
+// Current page state to explain why a wait failed
+async function waitDiagnostics(session: SessionState, params: any): Promise<Record<string, any>> {
+  const data = async (cmd: any) => {
+    try {
+      const result = await executeCommand({ id: Date.now().toString(), ...cmd }, session.browser) as any;
+      return result?.success === false ? {} : result?.data ?? {};
+    } catch {
+      return {};
+    }
+  };
+  const diagnostics: Record<string, any> = {
+    url: (await data({ action: "url" })).url,
+    title: (await data({ action: "title" })).title,
+  };
+  if (params.selector) {
+    diagnostics.visible = (await data({ action: "isvisible", selector: params.selector })).visible ?? false;
+    if (!/^@?e\d+$/.test(params.selector) && !params.selector.startsWith("ref=")) {
+      diagnostics.matches = (await data({ action: "count", selector: params.selector })).count;
+    }
+  }
+  return diagnostics;
+}
+
+// Record every request/response on the session's browser context
+const MAX_NETWORK_ENTRIES = 2000;
+
+function startNetworkCapture(session: SessionState): NetworkCapture {
+  session.network?.detach();
+
+  const context = session.browser.getPage().context();
+  const entries: NetworkEntry[] = [];
+  const byRequest = new WeakMap<any, NetworkEntry>();
+  let nextId = 1;
+
+  const onRequest = (request: any) => {
+    const entry: NetworkEntry = {
+      id: nextId++,
+      url: request.url(),
+      method: request.method(),
+      resourceType: request.resourceType(),
+      startedAt: Date.now(),
+      requestHeaders: request.headers(),
+    };
+    entries.push(entry);
+    if (entries.length > MAX_NETWORK_ENTRIES) {
+      entries.splice(0, entries.length - MAX_NETWORK_ENTRIES);
+    }
+    byRequest.set(request, entry);
+  };
+  const onResponse = (response: any) => {
+    const entry = byRequest.get(response.request());
+    if (!entry) return;
+    const headers = response.headers();
+    entry.status = response.status();
+    entry.statusText = response.statusText();
+    entry.responseHeaders = headers;
+    entry.mimeType = headers["content-type"];
+  };
+  const onFinished = (request: any) => {
+    const entry = byRequest.get(request);
+    if (entry) entry.durationMs = Date.now() - entry.startedAt;
+  };
+  const onFailed = (request: any) => {
+    const entry = byRequest.get(request);
+    if (!entry) return;
+    entry.durationMs = Date.now() - entry.startedAt;
+    entry.failure = request.failure()?.errorText ?? "failed";
+  };
+
+  context.on("request", onRequest);
+  context.on("response", onResponse);
+  context.on("requestfinished", onFinished);
+  context.on("requestfailed", onFailed);
+
+  const capture: NetworkCapture = {
+    capturing: true,
+    entries,
+    detach: () => {
+      context.off("request", onRequest);
+      context.off("response", onResponse);
+      context.off("requestfinished", onFinished);
+      context.off("requestfailed", onFailed);
+      capture.capturing = false;
+    },
+  };
+  session.network = capture;
+  return capture;
+}
+
+// Why a request failed, or null if it succeeded
+function classifyNetworkFailure(entry: NetworkEntry): string | null {
+  if (entry.failure) {
+    if (/BLOCKED/i.test(entry.failure)) return "blocked";
+    // net::ERR_FAILED is Chromium's generic code; only call it CORS when the message says so
+    if (/CORS/i.test(entry.failure)) return "cors";
+    if (/ABORTED/i.test(entry.failure)) return "aborted";
+    return "network_error";
+  }
+  if (entry.status !== undefined && entry.status >= 500) return "server_error";
+  if (entry.status !== undefined && entry.status >= 400) return "client_error";
+  return null;
+}
+
+// Filter captured entries by URL substring, method, status range, type or failures
+function filterNetworkEntries(entries: NetworkEntry[], params: any): NetworkEntry[] {
+  return entries.filter((e) =>
+    (!params.url || e.url.includes(params.url)) &&
+    (!params.method || e.method.toUpperCase() === String(params.method).toUpperCase()) &&
+    (!params.resourceType || e.resourceType === params.resourceType) &&
+    (params.statusMin === undefined || (e.status ?? 0) >= params.statusMin) &&
+    (params.statusMax === undefined || (e.status ?? 0) <= params.statusMax) &&
+    (!params.failedOnly || classifyNetworkFailure(e) !== null)
+  );
+}
+
+function summarizeNetworkEntry(entry: NetworkEntry) {
+  const failure = classifyNetworkFailure(entry);
+  return {
+    id: entry.id,
+    method: entry.method,
+    url: entry.url,
+    status: entry.status ?? null,
+    type: entry.resourceType,
+    ...(entry.durationMs !== undefined ? { durationMs: entry.durationMs } : {}),
+    ...(failure ? { failure, ...(entry.failure ? { error: entry.failure } : {}) } : {}),
+  };
+}
+
+// Failed-request summary grouped by kind (4xx, 5xx, blocked, CORS, ...)
+function summarizeNetworkFailures(entries: NetworkEntry[]) {
+  const failed = entries.filter((e) => classifyNetworkFailure(e) !== null);
+  const byKind: Record<string, number> = {};
+  for (const entry of failed) {
+    const kind = classifyNetworkFailure(entry)!;
+    byKind[kind] = (byKind[kind] ?? 0) + 1;
+  }
+  return {
+    total: entries.length,
+    failed: failed.length,
+    byKind,
+    requests: failed.map(summarizeNetworkEntry),
+  };
+}
+
+// Credentials and session identifiers that shouldn't leave the machine in an uploaded HAR
+const SENSITIVE_HEADER = /^(authorization|proxy-authorization|cookie|set-cookie)$|api[-_]?key|token|secret|session|csrf|xsrf|^x-auth/i;
+
+// Build a HAR 1.2 log from captured entries; sensitive header values are masked unless redact is false
+function toHar(entries: NetworkEntry[], redact = true) {
+  const headerList = (headers?: Record<string, string>) =>
+    Object.entries(headers ?? {}).map(([name, value]) => ({
+      name,
+      value: redact && SENSITIVE_HEADER.test(name) ? "[REDACTED]" : value,
+    }));
+  return {
+    log: {
+      version: "1.2",
+      creator: { name: "agent-browser-plugin", version: "1" },
+      pages: [],
+      entries: entries.map((e) => {
+        let queryString: Array<{ name: string; value: string }> = [];
+        try {
+          queryString = [...new URL(e.url).searchParams].map(([name, value]) => ({ name, value }));
+        } catch {
+          // Non-URL requests (data:, blob:) have no query string
+        }
+        return {
+          startedDateTime: new Date(e.startedAt).toISOString(),
+          time: e.durationMs ?? 0,
+          request: {
+            method: e.method,
+            url: e.url,
+            httpVersion: "HTTP/1.1",
+            headers: headerList(e.requestHeaders),
+            queryString,
+            cookies: [],
+            headersSize: -1,
+            bodySize: -1,
+          },
+          response: {
+            status: e.status ?? 0,
+            statusText: e.statusText ?? "",
+            httpVersion: "HTTP/1.1",
+            headers: headerList(e.responseHeaders),
+            cookies: [],
+            content: { size: -1, mimeType: e.mimeType ?? "" },
+            redirectURL: e.responseHeaders?.location ?? "",
+            headersSize: -1,
+            bodySize: -1,
+            ...(e.failure ? { _error: e.failure } : {}),
+          },
+          cache: {},
+          timings: { send: 0, wait: e.durationMs ?? 0, receive: 0 },
+          _resourceType: e.resourceType,
+        };
+      }),
+    },
+  };
+}
+
+// "/regex/flags" becomes a RegExp, anything else is a Playwright URL glob
+function toUrlMatcher(pattern: string): string | RegExp {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  return regex ? new RegExp(regex[1], regex[2]) : pattern;
+}
+
+let nextMockId = 1;
+
+// Fixture files are read from fixturesDir only; relative paths resolve inside it
+function fixturePath(name: string): string {
+  const root = resolve(pluginConfig.fixturesDir ?? join(homedir(), ".openclaw", "agent-browser-plugin", "fixtures"));
+  const target = resolve(root, name);
+  if (!target.startsWith(root + sep)) {
+    throw new Error(`Fixture path escapes fixtures directory: ${name}`);
+  }
+  return target;
+}
+
+// Resolve a user-supplied path inside one of the allowed directories (relative paths land in the
+// first); null when it escapes all of them
+function confinedPath(name: string, dirs: string[]): string | null {
+  for (const dir of dirs) {
+    const root = resolve(dir);
+    const target = resolve(root, name);
+    if (target.startsWith(root + sep)) return target;
+  }
+  return null;
+}
+
+// Register a request interception rule on the session's browser context
+async function addMockRule(session: SessionState, params: any): Promise<MockRule> {
+  if (!params.pattern) {
+    throw new Error("pattern is required");
+  }
+  const respond: MockRule["respond"] = params.respond ?? (params.body !== undefined || params.json !== undefined || params.fixture ? "fulfill" : "continue");
+
+  let body: string | Buffer | undefined = params.body;
+  let contentType: string | undefined = params.contentType;
+  if (params.json !== undefined) {
+    body = JSON.stringify(params.json);
+    contentType = contentType ?? "application/json";
+  }
+  if (params.fixture) {
+    const path = fixturePath(params.fixture);
+    if (!existsSync(path)) {
+      throw new Error(`Fixture not found: ${params.fixture}`);
+    }
+    // Raw bytes so binary fixtures (images, fonts) are served intact
+    body = readFileSync(path);
+    contentType = contentType ?? (params.fixture.endsWith(".json") ? "application/json" : undefined);
+  }
+
+  const rule: MockRule = {
+    id: nextMockId++,
+    pattern: params.pattern,
+    ...(params.method ? { method: String(params.method).toUpperCase() } : {}),
+    respond,
+    ...(respond === "fulfill" ? { status: params.status ?? 200, body: body ?? "", contentType: contentType ?? "text/plain" } : {}),
+    ...(params.fixture ? { fixture: params.fixture } : {}),
+    ...(params.errorCode ? { errorCode: params.errorCode } : {}),
+    ...(params.delayMs ? { delayMs: params.delayMs } : {}),
+    ...(params.requestHeaders ? { requestHeaders: params.requestHeaders } : {}),
+    ...(params.responseHeaders ? { responseHeaders: params.responseHeaders } : {}),
+    hits: 0,
+    handler: async (route: any) => {
+      const request = route.request();
+      if (rule.method && request.method() !== rule.method) {
+        return route.fallback();
+      }
+      rule.hits += 1;
+      if (rule.delayMs) {
+        await new Promise((r) => setTimeout(r, rule.delayMs));
+      }
+
+      if (rule.respond === "abort") {
+        return route.abort(rule.errorCode ?? "failed");
+      }
+      if (rule.respond === "fulfill") {
+        return route.fulfill({
+          status: rule.status,
+          body: rule.body,
+          contentType: rule.contentType,
+          headers: rule.responseHeaders,
+        });
+      }
+
+      const headers = rule.requestHeaders ? { ...request.headers(), ...rule.requestHeaders } : undefined;
+      if (rule.responseHeaders) {
+        const response = await route.fetch(headers ? { headers } : undefined);
+        return route.fulfill({ response, headers: { ...response.headers(), ...rule.responseHeaders } });
+      }
+      return route.continue(headers ? { headers } : undefined);
+    },
+  };
+
+  await session.browser.getPage().context().route(toUrlMatcher(rule.pattern), rule.handler);
+  session.mocks.set(rule.id, rule);
+  return rule;
+}
+
+async function removeMockRule(session: SessionState, rule: MockRule): Promise<void> {
+  await session.browser.getPage().context().unroute(toUrlMatcher(rule.pattern), rule.handler);
+  session.mocks.delete(rule.id);
+}
+
+function describeMockRule(rule: MockRule) {
+  const { handler: _handler, body, ...rest } = rule;
+  if (Buffer.isBuffer(body)) {
+    return { ...rest, body: `(${body.length} bytes from fixture)` };
+  }
+  return {
+    ...rest,
+    ...(body !== undefined ? { body: body.length > 200 ? `${body.slice(0, 200)}… (${body.length} chars)` : body } : {}),
+  };
+}
+
+function baselinePath(project: string, key: string): string {
+  assertSafeName("project", project);
+  assertSafeName("baseline key", key);
+  const dir = pluginConfig.baselinesDir ?? join(homedir(), ".openclaw", "agent-browser-plugin", "baselines");
+  return join(dir, project, `${key}.png`);
+}
+
+// Page regions (in screenshot pixels) to exclude from a visual diff
+async function ignoreRegions(
+  session: SessionState,
+  selectors: string[],
+  imageWidth: number,
+  fullPage: boolean
+): Promise<Array<{ x: number; y: number; width: number; height: number }>> {
+  if (selectors.length === 0) return [];
+
+  const viewport = await executeCommand(
+    { id: Date.now().toString(), action: "evaluate", script: "({ x: window.scrollX, y: window.scrollY, width: window.innerWidth })" },
+    session.browser
+  ) as any;
+  const { x: scrollX = 0, y: scrollY = 0, width = imageWidth } = viewport.data?.result ?? {};
+  const scale = width > 0 ? imageWidth / width : 1;
+
+  const regions = [];
+  for (const selector of selectors) {
+    let box: any = null;
+    try {
+      box = await session.browser.getLocator(selector).boundingBox({ timeout: 5000 });
+    } catch {
+      box = null;
+    }
+    if (!box) continue;
+    regions.push({
+      x: Math.floor((box.x + (fullPage ? scrollX : 0)) * scale),
+      y: Math.floor((box.y + (fullPage ? scrollY : 0)) * scale),
+      width: Math.ceil(box.width * scale),
+      height: Math.ceil(box.height * scale),
+    });
+  }
+  return regions;
+}
+
+// Paint regions a flat colour so they match in both images
+function maskRegions(png: PNG, regions: Array<{ x: number; y: number; width: number; height: number }>): void {
+  for (const r of regions) {
+    for (let y = Math.max(0, r.y); y < Math.min(png.height, r.y + r.height); y++) {
+      for (let x = Math.max(0, r.x); x < Math.min(png.width, r.x + r.width); x++) {
+        const i = (y * png.width + x) * 4;
+        png.data[i] = 255;
+        png.data[i + 1] = 0;
+        png.data[i + 2] = 255;
+        png.data[i + 3] = 255;
+      }
+    }
+  }
+}
+
+interface VisualDiff {
+  width: number;
+  height: number;
+  diffPixels: number;
+  mismatchPercent: number;
+  sizeMismatch?: string;
+}
+
+// Pixel-diff two PNG files, writing a diff image when sizes match
+function diffImages(
+  baselineFile: string,
+  currentFile: string,
+  diffFile: string,
+  regions: Array<{ x: number; y: number; width: number; height: number }>,
+  pixelThreshold: number
+): VisualDiff {
+  const baseline = PNG.sync.read(readFileSync(baselineFile));
+  const current = PNG.sync.read(readFileSync(currentFile));
+  if (baseline.width !== current.width || baseline.height !== current.height) {
+    return {
+      width: current.width,
+      height: current.height,
+      diffPixels: current.width * current.height,
+      mismatchPercent: 100,
+      sizeMismatch: `baseline ${baseline.width}x${baseline.height}, current ${current.width}x${current.height}`,
+    };
+  }
+
+  maskRegions(baseline, regions);
+  maskRegions(current, regions);
+  const diff = new PNG({ width: current.width, height: current.height });
+  const diffPixels = pixelmatch(baseline.data, current.data, diff.data, current.width, current.height, {
+    threshold: pixelThreshold,
+  });
+  writeFileSync(diffFile, PNG.sync.write(diff));
+
+  const total = current.width * current.height;
+  return {
+    width: current.width,
+    height: current.height,
+    diffPixels,
+    mismatchPercent: Math.round((diffPixels / total) * 10000) / 100,
+  };
+}
+
+// Structured locators accepted wherever a tool takes a ref or selector
+interface SemanticLocator {
+  role?: string;
+  name?: string;
+  text?: string;
+  label?: string;
+  placeholder?: string;
+  testId?: string;
+  exact?: boolean;
+  nth?: number;
+}
+
+const LOCATOR_KEYS = ["role", "text", "label", "placeholder", "testId"];
+
+// Same escaping Playwright's getBy* helpers use; "s" = case-sensitive exact, "i" = case-insensitive substring
+function escapeForText(text: string, exact?: boolean): string {
+  return `${JSON.stringify(text)}${exact ? "s" : "i"}`;
+}
+
+function escapeForAttribute(value: string, exact?: boolean): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"${exact ? "s" : "i"}`;
+}
+
+function isSemanticLocator(value: any): value is SemanticLocator {
+  return !!value && typeof value === "object" && !Array.isArray(value) && LOCATOR_KEYS.some((key) => key in value);
+}
+
+// Turn a structured locator into the selector string Playwright's getBy* helpers produce
+function toSelector(target: string | SemanticLocator): string {
+  if (typeof target === "string") return target;
+  if (!isSemanticLocator(target)) {
+    throw new Error(`Invalid locator ${JSON.stringify(target)}: expected one of ${LOCATOR_KEYS.join(", ")}`);
+  }
+  let selector: string;
+  if (target.role) {
+    selector = `internal:role=${target.role}${target.name !== undefined ? `[name=${escapeForAttribute(target.name, target.exact)}]` : ""}`;
+  } else if (target.text !== undefined) {
+    selector = `internal:text=${escapeForText(target.text, target.exact)}`;
+  } else if (target.label !== undefined) {
+    selector = `internal:label=${escapeForText(target.label, target.exact)}`;
+  } else if (target.placeholder !== undefined) {
+    selector = `internal:attr=[placeholder=${escapeForAttribute(target.placeholder, target.exact)}]`;
+  } else {
+    selector = `internal:testid=[data-testid=${escapeForAttribute(target.testId!, true)}]`;
+  }
+  return target.nth !== undefined ? `${selector} >> nth=${target.nth}` : selector;
+}
+
+// Rewrite locator objects in element-targeting params to selector strings before a tool runs
+function normalizeLocators(params: any): any {
+  if (!params || typeof params !== "object") return params;
+  const out = { ...params };
+  for (const key of ["selector", "next", "submit", "value"]) {
+    if (key === "value" && !isSemanticLocator(out[key])) continue;
+    if (out[key] && typeof out[key] === "object") out[key] = toSelector(out[key]);
+  }
+  if (Array.isArray(out.ignore)) {
+    out.ignore = out.ignore.map(toSelector);
+  }
+  return out;
+}
+
+// JSON schema for a param that takes a ref, CSS selector or structured locator
+function locatorParam(description: string) {
+  return {
+    description: `${description}. Also accepts a locator: {role, name}, {text}, {label}, {placeholder} or {testId}, with optional exact and nth.`,
+    oneOf: [
+      { type: "string" },
+      {
+        type: "object",
+        properties: {
+          role: { type: "string", description: "ARIA role, e.g. 'button'" },
+          name: { type: "string", description: "Accessible name (with role)" },
+          text: { type: "string" },
+          label: { type: "string" },
+          placeholder: { type: "string" },
+          testId: { type: "string", description: "data-testid value" },
+          exact: { type: "boolean", default: false, description: "Case-sensitive whole-string match" },
+          nth: { type: "number", description: "Pick the nth match (0-based, -1 for last)" },
+        },
+      },
+    ],
+  };
+}
+
+interface SnapshotRef {
+  role: string;
+  name?: string;
+  nth?: number;
+  selector?: string;
+  ref?: string; // agent-browser's ref when the agent was shown a carried-over one
+}
+
+// Remember the refs (and page URL) of a snapshot the agent was shown. With aliases (browser ref ->
+// shown ref, from a diff), only the refs in the shown tree are kept, under the names the agent saw.
+async function recordSnapshotRefs(session: SessionState, aliases?: Map<string, string>): Promise<void> {
+  const url = await executeCommand({ id: Date.now().toString(), action: "url" }, session.browser) as any;
+  const refs = new Map<string, SnapshotRef>();
+  for (const [ref, data] of Object.entries<any>(session.browser.getRefMap() ?? {})) {
+    const shown = aliases ? aliases.get(ref) : ref;
+    if (!shown) continue;
+    refs.set(shown, { role: data.role, name: data.name, nth: data.nth, selector: data.selector, ...(shown !== ref ? { ref } : {}) });
+  }
+  session.snapshotGeneration += 1;
+  session.snapshotRefs = { generation: session.snapshotGeneration, url: url.data?.url ?? "", refs };
+}
+
+// Selector matching every element a ref's role+name could refer to
+function refTargetSelector(entry: SnapshotRef): string {
+  if (entry.role === "clickable" || entry.role === "focusable") {
+    return entry.selector!;
+  }
+  return toSelector(entry.name ? { role: entry.role, name: entry.name, exact: true } : { role: entry.role });
+}
+
+class StaleRefError extends Error {
+  constructor(public ref: string, reason: string) {
+    super(`Ref ${ref} is stale: ${reason}. Re-run ab_snapshot and use the new refs.`);
+  }
+}
+
+// Check a ref against the snapshot it came from. Returns the selector to use (the ref itself
+// when still valid, a role+name selector when re-resolved) or throws StaleRefError.
+async function resolveRef(session: SessionState, ref: string): Promise<{ selector: string; note?: string }> {
+  const snapshot = session.snapshotRefs;
+  const key = ref.replace(/^(@|ref=)/, "");
+  if (!snapshot) {
+    return { selector: ref };
+  }
+  const entry = snapshot.refs.get(key);
+  if (!entry) {
+    throw new StaleRefError(ref, `not in the latest snapshot (generation ${snapshot.generation})`);
+  }
+
+  const run = (cmd: any) => executeCommand({ id: Date.now().toString(), ...cmd }, session.browser) as Promise<any>;
+  const url = (await run({ action: "url" })).data?.url ?? snapshot.url;
+  const target = refTargetSelector(entry);
+  const count = (await run({ action: "count", selector: target })).data?.count ?? 0;
+  const nth = entry.nth ?? 0;
+  const describe = `${entry.role}${entry.name ? ` "${entry.name}"` : ""}`;
+
+  if (url === snapshot.url && count > nth) {
+    // Still on the same page; make sure a newer internal snapshot didn't renumber the ref
+    const actual = entry.ref ?? key;
+    const current = session.browser.getRefMap()?.[actual];
+    if (current && current.role === entry.role && current.name === entry.name && (current.nth ?? 0) === nth) {
+      return { selector: entry.ref ? `@${actual}` : ref };
+    }
+    return { selector: `${target} >> nth=${nth}`, note: `${ref} was renumbered by a later snapshot; resolved as ${describe}` };
+  }
+
+  const reason = url !== snapshot.url
+    ? `page navigated since snapshot ${snapshot.generation} (${snapshot.url} -> ${url})`
+    : `${describe} is no longer on the page`;
+  if (count === 1) {
+    return { selector: target, note: `${ref} was stale (${reason}); re-resolved as ${describe}` };
+  }
+  throw new StaleRefError(ref, count > 1 ? `${reason}; ${count} elements now match ${describe}` : reason);
+}
+
+// Run resolveRef over every element-targeting param that holds a ref
+async function resolveRefParams(session: SessionState, params: any): Promise<{ params: any; notes: string[] }> {
+  const out = { ...params };
+  const notes: string[] = [];
+  const resolve = async (value: any) => {
+    if (typeof value !== "string" || !session.browser.isRef(value)) return value;
+    const { selector, note } = await resolveRef(session, value);
+    if (note) notes.push(note);
+    return selector;
+  };
+  for (const key of ["selector", "next", "submit"]) {
+    if (key in out) out[key] = await resolve(out[key]);
+  }
+  if (out.action === "drag") {
+    out.value = await resolve(out.value);
+  }
+  if (Array.isArray(out.ignore)) {
+    out.ignore = await Promise.all(out.ignore.map(resolve));
+  }
+  return { params: out, notes };
+}
+
+// Stale-ref error with a fresh (truncated) interactive snapshot so the agent can retry in one step
+async function staleRefReport(session: SessionState, error: StaleRefError): Promise<Record<string, any>> {
+  const command = { action: "snapshot", interactive: true };
+  const result = await executeCommand({ id: Date.now().toString(), ...command }, session.browser) as any;
+  const tree = result.data?.snapshot;
+  if (typeof tree !== "string") {
+    return { error: error.message, staleRef: error.ref };
+  }
+  await recordSnapshotRefs(session);
+  session.lastSnapshot = { tree, options: JSON.stringify(command) };
+  const page = pageSnapshot(tree, 0, 40);
+  return {
+    error: error.message,
+    staleRef: error.ref,
+    generation: session.snapshotGeneration,
+    snapshot: page.next === undefined
+      ? page.text
+      : `${page.text}\n[truncated] ${page.total - page.next} more lines: call ab_snapshot with cursor: ${page.next}`,
+  };
+}
+
+const MAX_TRACE_ENTRIES = 500;
+
+// Tools that aren't recorded: the tools reading the trace, and ab_run whose steps are recorded individually
+const UNTRACED_TOOLS = new Set(["ab_trace", "ab_export_test", "ab_report", "ab_run"]);
+
+interface TraceEntry {
+  seq: number;
+  tool: string;
+  params: Record<string, any>;
+  startedAt: string;
+  durationMs: number;
+  ok: boolean;
+  error?: string;
+  result: any;
+  refs?: Record<string, SnapshotRef>;
+  before?: string;
+  after?: string;
+}
+
+async function captureTraceShot(session: SessionState, dir: string, name: string): Promise<string | undefined> {
+  mkdirSync(dir, { recursive: true });
+  const path = join(dir, `${name}.png`);
+  const result = await executeCommand(
+    { id: Date.now().toString(), action: "screenshot", path, fullPage: false },
+    session.browser
+  ).catch(() => null) as any;
+  return result?.success === false || !existsSync(path) ? undefined : path;
+}
+
+// Keep the trace readable: long results are cut rather than dropped
+function traceResult(value: any): any {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  if (text === undefined || text.length <= 2000) return value;
+  return `${text.slice(0, 2000)}… (${text.length - 2000} more chars)`;
+}
+
+// Typed values that never enter the trace (it ends up in uploaded files, reports and specs)
+const REDACTED = "[REDACTED]";
+const SECRET_FIELD = /passw|passcode|passphrase|secret|token|otp\b|one.?time|cvc|cvv|card.?number|ssn\b|\bpin\b/i;
+
+// Whether a fill or type call targets a password input or a field named like a credential.
+// An element that can't be inspected counts as secret.
+async function isSecretInput(session: SessionState, tool: string, params: any): Promise<boolean> {
+  if (tool !== "ab_fill" && !(tool === "ab_interact" && params?.action === "type")) return false;
+  if (typeof params.selector !== "string") return false;
+  if (SECRET_FIELD.test(params.selector)) return true;
+  try {
+    const type = await session.browser.getLocator(params.selector).getAttribute("type", { timeout: OVERLAY_LOOKUP_TIMEOUT_MS });
+    return type === "password";
+  } catch {
+    return true;
+  }
+}
+
+// Params as recorded in the trace: secret fill/type values are masked, and ab_fill_form keeps only
+// the values of fields it filled that are neither password inputs nor named like credentials
+function redactTraceParams(tool: string, params: any, secret: boolean, value: any): any {
+  if (tool === "ab_fill_form" && params?.fields && typeof params.fields === "object") {
+    const plain = new Set(
+      (value?.filled ?? []).filter((f: any) => f.type !== "password" && !SECRET_FIELD.test(f.field)).map((f: any) => f.field)
+    );
+    const fields = Object.fromEntries(
+      Object.entries(params.fields).map(([key, v]) => [key, plain.has(key) ? v : REDACTED])
+    );
+    return { ...params, fields };
+  }
+  return secret && params?.value !== undefined ? { ...params, value: REDACTED } : params;
+}
+
+function appendTrace(session: SessionState, entry: Omit<TraceEntry, "seq">): void {
+  session.traceSeq += 1;
+  session.trace.push({ seq: session.traceSeq, ...entry });
+  if (session.trace.length > MAX_TRACE_ENTRIES) {
+    session.trace.splice(0, session.trace.length - MAX_TRACE_ENTRIES);
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function imageDataUri(path?: string): string | null {
+  if (!path || !existsSync(path)) return null;
+  return `data:image/png;base64,${readFileSync(path).toString("base64")}`;
+}
+
+// Self-contained HTML timeline (screenshots inlined as data URIs)
+function renderTraceHtml(sessionName: string, entries: TraceEntry[]): string {
+  const failed = entries.filter((e) => !e.ok).length;
+  const rows = entries.map((e) => {
+    const shots = [e.before, e.after]
+      .map((p, i) => {
+        const uri = imageDataUri(p);
+        return uri ? `<figure><img src="${uri}" alt="${i ? "after" : "before"}"><figcaption>${i ? "after" : "before"}</figcaption></figure>` : "";
+      })
+      .join("");
+    const result = typeof e.result === "string" ? e.result : JSON.stringify(e.result, null, 2);
+    return `<tr class="${e.ok ? "ok" : "fail"}">
+<td>${e.seq}</td>
+<td><code>${escapeHtml(e.tool)}</code><br><small>${escapeHtml(e.startedAt)}</small></td>
+<td><pre>${escapeHtml(JSON.stringify(e.params, null, 2))}</pre></td>
+<td>${e.durationMs} ms</td>
+<td>${e.ok ? "✅" : `❌ ${escapeHtml(e.error ?? "")}`}<details><summary>result</summary><pre>${escapeHtml(result ?? "")}</pre></details></td>
+<td class="shots">${shots}</td>
+</tr>`;
+  });
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>Trace: ${escapeHtml(sessionName)}</title>
+<style>
+body{font:14px system-ui,sans-serif;margin:24px;color:#111}
+table{border-collapse:collapse;width:100%}
+td,th{border-bottom:1px solid #ddd;padding:8px;vertical-align:top;text-align:left}
+tr.fail{background:#fef2f2}
+pre{margin:0;white-space:pre-wrap;max-width:420px;font-size:12px}
+.shots{display:flex;gap:8px}
+figure{margin:0}
+img{max-width:240px;border:1px solid #ccc}
+figcaption{font-size:11px;color:#666}
+</style></head><body>
+<h1>Trace: ${escapeHtml(sessionName)}</h1>
+<p>${entries.length} calls, ${failed} failed</p>
+<table><thead><tr><th>#</th><th>Tool</th><th>Params</th><th>Duration</th><th>Result</th><th>Screenshots</th></tr></thead>
+<tbody>
+${rows.join("\n")}
+</tbody></table>
+</body></html>
+`;
+}
+
+// ========== Session report ==========
+
+// Calls whose outcome is a pass/fail verdict rather than an action
+const CHECK_TOOLS = new Set(["ab_assert", "ab_visual_compare", "ab_a11y_audit"]);
+
+interface SessionReport {
+  session: string;
+  title: string;
+  generatedAt: string;
+  steps: TraceEntry[];
+  checks: Array<{ seq: number; tool: string; passed: boolean; message: string }>;
+  errors: LogEntry[];
+  artifacts: ArtifactRecord[];
+}
+
+function checkMessage(entry: TraceEntry): string {
+  const r = entry.result;
+  if (r && typeof r === "object") {
+    if (entry.tool === "ab_assert" && r.message) return r.message;
+    if (entry.tool === "ab_visual_compare" && r.key) {
+      return `${r.project}/${r.key}: ${r.mismatchPercent}% changed (threshold ${r.threshold}%)`;
+    }
+    if (entry.tool === "ab_a11y_audit" && r.summary) {
+      return `${r.summary.total} accessibility violation${r.summary.total === 1 ? "" : "s"}`;
+    }
+  }
+  return entry.error ?? (entry.ok ? "passed" : "failed");
+}
+
+function buildSessionReport(name: string, session: SessionState, title: string): SessionReport {
+  return {
+    session: name,
+    title,
+    generatedAt: new Date().toISOString(),
+    steps: session.trace,
+    checks: session.trace
+      .filter((e) => CHECK_TOOLS.has(e.tool))
+      .map((e) => ({ seq: e.seq, tool: e.tool, passed: e.ok, message: checkMessage(e) })),
+    errors: session.logs.filter((l) => l.level === "error" || l.level === "pageerror" || l.level === "network"),
+    artifacts: session.artifacts,
+  };
+}
+
+function reportSummary(report: SessionReport): string {
+  const failedSteps = report.steps.filter((e) => !e.ok).length;
+  const passedChecks = report.checks.filter((c) => c.passed).length;
+  return [
+    `${report.steps.length} steps (${failedSteps} failed)`,
+    `${passedChecks}/${report.checks.length} checks passed`,
+    `${report.errors.length} console errors`,
+    `${report.artifacts.length} artifacts`,
+  ].join(", ");
+}
+
+// Self-contained HTML: images inlined as data URIs, other artifacts linked
+function renderReportHtml(report: SessionReport): string {
+  const link = (a: ArtifactRecord) => escapeHtml(a.url ?? pathToFileURL(a.path).href);
+  const artifacts = report.artifacts.map((a) => {
+    const uri = a.contentType.startsWith("image/") && existsSync(a.path)
+      ? `data:${a.contentType};base64,${readFileSync(a.path).toString("base64")}`
+      : null;
+    const caption = `<figcaption><a href="${link(a)}">${escapeHtml(a.name)}</a> <small>${escapeHtml(a.createdAt)}</small></figcaption>`;
+    if (uri) return `<figure><img src="${uri}" alt="${escapeHtml(a.name)}">${caption}</figure>`;
+    if (a.contentType.startsWith("video/")) return `<figure><video src="${link(a)}" controls></video>${caption}</figure>`;
+    return `<figure class="file">${caption}</figure>`;
+  });
+  const checks = report.checks.map((c) =>
+    `<tr class="${c.passed ? "ok" : "fail"}"><td>${c.seq}</td><td><code>${escapeHtml(c.tool)}</code></td><td>${c.passed ? "✅" : "❌"} ${escapeHtml(c.message)}</td></tr>`
+  );
+  const steps = report.steps.map((e) =>
+    `<tr class="${e.ok ? "ok" : "fail"}"><td>${e.seq}</td><td><code>${escapeHtml(e.tool)}</code></td>` +
+    `<td><pre>${escapeHtml(JSON.stringify({ ...e.params, session: undefined }))}</pre></td><td>${e.durationMs} ms</td>` +
+    `<td>${e.ok ? "✅" : `❌ ${escapeHtml(e.error ?? "")}`}</td></tr>`
+  );
+  const errors = report.errors.map((l) =>
+    `<li><code>${l.level}</code> ${escapeHtml(l.text)}${l.url ? ` <small>${escapeHtml(l.url)}</small>` : ""}</li>`
+  );
+  const section = (heading: string, items: string[], html: string) =>
+    `<h2>${heading} (${items.length})</h2>\n${items.length ? html : "<p>None</p>"}`;
+
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(report.title)}</title>
+<style>
+body{font:14px system-ui,sans-serif;margin:24px;color:#111}
+table{border-collapse:collapse;width:100%}
+td,th{border-bottom:1px solid #ddd;padding:6px 8px;vertical-align:top;text-align:left}
+tr.fail{background:#fef2f2}
+pre{margin:0;white-space:pre-wrap;font-size:12px}
+.artifacts{display:flex;flex-wrap:wrap;gap:12px}
+figure{margin:0;max-width:360px}
+img,video{max-width:360px;border:1px solid #ccc}
+figcaption{font-size:12px;color:#444}
+</style></head><body>
+<h1>${escapeHtml(report.title)}</h1>
+<p>Session <code>${escapeHtml(report.session)}</code> · ${escapeHtml(reportSummary(report))} · generated ${escapeHtml(report.generatedAt)}</p>
+${section("Checks", checks, `<table><tbody>\n${checks.join("\n")}\n</tbody></table>`)}
+${section("Console errors", errors, `<ul>\n${errors.join("\n")}\n</ul>`)}
+${section("Artifacts", artifacts, `<div class="artifacts">\n${artifacts.join("\n")}\n</div>`)}
+${section("Steps", steps, `<table><thead><tr><th>#</th><th>Tool</th><th>Params</th><th>Duration</th><th>Result</th></tr></thead><tbody>\n${steps.join("\n")}\n</tbody></table>`)}
+</body></html>
+`;
+}
+
+// Compact markdown for PR comments: checks, failures, errors and artifact links (full step list lives in the HTML)
+function renderReportMarkdown(report: SessionReport, htmlUrl: string | null): string {
+  const lines = [`### ${report.title}`, "", `Session \`${report.session}\`: ${reportSummary(report)}`];
+  if (htmlUrl) lines.push("", `[Full report](${htmlUrl})`);
+  if (report.checks.length) {
+    lines.push("", "**Checks**", "", ...report.checks.map((c) => `- ${c.passed ? "✅" : "❌"} ${c.message}`));
+  }
+  const failed = report.steps.filter((e) => !e.ok);
+  if (failed.length) {
+    lines.push("", "**Failed steps**", "", ...failed.map((e) => `- #${e.seq} \`${e.tool}\`: ${e.error}`));
+  }
+  if (report.errors.length) {
+    lines.push("", "**Console errors**", "", ...report.errors.slice(0, 20).map((l) => `- \`${l.level}\` ${l.text.split("\n")[0]}`));
+    if (report.errors.length > 20) lines.push(`- … ${report.errors.length - 20} more`);
+  }
+  if (report.artifacts.length) {
+    lines.push("", "**Artifacts**", "", ...report.artifacts.map((a) =>
+      a.url
+        ? a.contentType.startsWith("image/") ? `- ![${a.name}](${a.url})` : `- [${a.name}](${a.url})`
+        : `- \`${a.path}\``
+    ));
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+// ========== Playwright test export ==========
+
+// Calls that only observe or report; they have no place in a generated spec
+const OBSERVE_ONLY_TOOLS = new Set([
+  "ab_snapshot", "ab_screenshot", "ab_screenshot_matrix", "ab_visual_compare", "ab_extract",
+  "ab_console", "ab_network", "ab_a11y_audit", "ab_record_start", "ab_record_stop",
+  "ab_session_save", "ab_close", "ab_artifacts",
+]);
+
+// Role/name of every ref a call used, captured when it ran (refs renumber on each snapshot)
+function traceRefs(session: SessionState, params: any): Record<string, SnapshotRef> | undefined {
+  const targets = [params?.selector, params?.next, params?.submit, params?.value, ...(Array.isArray(params?.ignore) ? params.ignore : [])];
+  const refs: Record<string, SnapshotRef> = {};
+  for (const target of targets) {
+    if (typeof target !== "string" || !session.browser.isRef(target)) continue;
+    const key = target.replace(/^(@|ref=)/, "");
+    const entry = session.snapshotRefs?.refs.get(key) ?? session.browser.getRefMap()?.[key];
+    if (entry) refs[target] = { role: entry.role, name: entry.name, nth: entry.nth, selector: entry.selector };
+  }
+  return Object.keys(refs).length ? refs : undefined;
+}
+
+function pickNth(code: string, nth?: number): string {
+  if (nth === undefined) return code;
+  return nth === -1 ? `${code}.last()` : nth === 0 ? `${code}.first()` : `${code}.nth(${nth})`;
+}
+
+// Playwright locator expression for a ref, CSS/internal selector or structured locator; null when a ref can't be resolved
+function playwrightLocator(target: any, refs: Record<string, SnapshotRef> = {}): string | null {
+  const q = JSON.stringify;
+  if (isSemanticLocator(target)) {
+    const exact = target.exact ? ", { exact: true }" : "";
+    let code: string;
+    if (target.role) {
+      const options = target.name !== undefined ? `, { name: ${q(target.name)}${target.exact ? ", exact: true" : ""} }` : "";
+      code = `page.getByRole(${q(target.role)}${options})`;
+    } else if (target.text !== undefined) {
+      code = `page.getByText(${q(target.text)}${exact})`;
+    } else if (target.label !== undefined) {
+      code = `page.getByLabel(${q(target.label)}${exact})`;
+    } else if (target.placeholder !== undefined) {
+      code = `page.getByPlaceholder(${q(target.placeholder)}${exact})`;
+    } else {
+      code = `page.getByTestId(${q(target.testId)})`;
+    }
+    return pickNth(code, target.nth);
+  }
+  if (typeof target !== "string") return null;
+  if (/^(@|ref=)?e\d+$/.test(target)) {
+    const entry = refs[target];
+    if (!entry) return null;
+    if (entry.role === "clickable" || entry.role === "focusable") {
+      return entry.selector ? pickNth(`page.locator(${q(entry.selector)})`, entry.nth) : null;
+    }
+    return playwrightLocator({ role: entry.role, ...(entry.name ? { name: entry.name, exact: true } : {}), nth: entry.nth });
+  }
+  return `page.locator(${q(target)})`;
+}
+
+// Expectation equivalent to a verified ab_query result
+function queryExpectation(params: any, data: any, locator: string | null): string | null {
+  const q = JSON.stringify;
+  switch (params.action) {
+    case "title":
+      return `await expect(page).toHaveTitle(${q(data.title)});`;
+    case "url":
+      return `await expect(page).toHaveURL(${q(data.url)});`;
+  }
+  if (!locator) return null;
+  switch (params.action) {
+    case "gettext":
+      return `await expect(${locator}).toHaveText(${q(String(data.text ?? "").trim())});`;
+    case "isvisible":
+      return `await expect(${locator}).${data.visible ? "toBeVisible" : "toBeHidden"}();`;
+    case "isenabled":
+      return `await expect(${locator}).${data.enabled ? "toBeEnabled" : "toBeDisabled"}();`;
+    case "ischecked":
+      return `await expect(${locator})${data.checked ? "" : ".not"}.toBeChecked();`;
+    case "count":
+      return `await expect(${locator}).toHaveCount(${Number(data.count)});`;
+    case "getattribute":
+      return data.value === null || data.value === undefined
+        ? `await expect(${locator}).not.toHaveAttribute(${q(params.attribute)});`
+        : `await expect(${locator}).toHaveAttribute(${q(params.attribute)}, ${q(data.value)});`;
+  }
+  return null;
+}
+
+function assertExpectation(params: any, locator: string | null): string | null {
+  const q = JSON.stringify;
+  const not = params.not ? ".not" : "";
+  const timeout = params.timeout ? `{ timeout: ${params.timeout} }` : "";
+  const withTimeout = (args: string) => (timeout ? (args ? `${args}, ${timeout}` : timeout) : args);
+  switch (params.type) {
+    case "url_matches":
+      return `await expect(page)${not}.toHaveURL(${withTimeout(`new RegExp(${q(String(params.expected))})`)});`;
+    case "title_matches":
+      return `await expect(page)${not}.toHaveTitle(${withTimeout(`new RegExp(${q(String(params.expected))})`)});`;
+  }
+  if (!locator) return null;
+  switch (params.type) {
+    case "text_contains":
+      return `await expect(${locator})${not}.toContainText(${withTimeout(q(String(params.expected ?? "")))});`;
+    case "text_equals":
+      return `await expect(${locator})${not}.toHaveText(${withTimeout(q(String(params.expected ?? "").trim()))});`;
+    case "visible":
+    case "enabled":
+    case "checked": {
+      const matcher = { visible: "toBeVisible", enabled: "toBeEnabled", checked: "toBeChecked" }[params.type as string];
+      const negate = (params.expected === false) !== !!params.not;
+      return `await expect(${locator})${negate ? ".not" : ""}.${matcher}(${timeout});`;
+    }
+    case "count":
+      return `await expect(${locator})${not}.toHaveCount(${withTimeout(String(Number(params.expected)))});`;
+    case "attribute":
+      return `await expect(${locator})${not}.toHaveAttribute(${withTimeout(`${q(params.attribute)}, ${q(params.expected ?? "")}`)});`;
+  }
+  return null;
+}
+
+// Spec expression for a traced value. Redacted secrets are read from an environment variable
+// named after the field, e.g. "Password" -> process.env.PASSWORD.
+function specValue(value: any, field: string): string {
+  if (value !== REDACTED) return JSON.stringify(String(value));
+  const name = (field.match(/"([^"]+)"/)?.[1] ?? field).replace(/[^A-Za-z0-9]+/g, "_").replace(/^_+|_+$/g, "").toUpperCase();
+  return `process.env.${/^[A-Z]/.test(name) ? name : `SECRET${name ? `_${name}` : ""}`} ?? ""`;
+}
+
+// ab_fill_form result -> one statement per filled field, using the strategy that matched it.
+// `scope` is the form's locator when the call was scoped with `selector`.
+function fillFormStatements(params: any, result: any, scope = "page"): string[] {
+  const q = JSON.stringify;
+  const lines: string[] = [];
+  for (const field of result?.filled ?? []) {
+    const value = params.fields?.[field.field];
+    const locator = field.by === "placeholder"
+      ? `${scope}.getByPlaceholder(${q(field.field)}, { exact: true })`
+      : field.by === "name"
+        ? `${scope}.locator(${q(`[name=${q(field.field)}]`)})`
+        : `${scope}.getByLabel(${q(field.field)}${field.by === "label" ? ", { exact: true }" : ""})`;
+    if (field.kind === "radio" || (field.kind === "checkbox" && field.by === "group")) {
+      for (const option of Array.isArray(value) ? value : [value]) {
+        lines.push(`await ${scope}.getByLabel(${q(String(option))}).check();`);
+      }
+    } else if (field.kind === "checkbox") {
+      lines.push(`await ${locator}.${truthy(value) ? "check" : "uncheck"}();`);
+    } else if (field.kind === "select") {
+      lines.push(`await ${locator}.selectOption(${q(Array.isArray(value) ? value.map(String) : String(value))});`);
+    } else {
+      lines.push(`await ${locator}.fill(${field.kind === "date" && value !== REDACTED ? q(formatDateValue(value, field.type ?? "date")) : specValue(value, field.field)});`);
+    }
+  }
+  if (params.submit) {
+    const submit = params.submit === true
+      ? `${scope === "page" ? `page.locator("form")` : scope}.locator("button[type=submit], input[type=submit], button:not([type])").first()`
+      : playwrightLocator(params.submit);
+    if (submit) lines.push(`await ${submit}.click();`);
+  }
+  return lines;
+}
+
+// One trace entry -> spec statements. Unconvertible calls become a throwing statement (so the spec
+// can't pass while skipping the step) plus a warning.
+function traceEntryToPlaywright(entry: TraceEntry, assertQueries: boolean): { lines: string[]; warning?: string } {
+  const q = JSON.stringify;
+  const p = entry.params ?? {};
+  const locator = p.selector !== undefined ? playwrightLocator(p.selector, entry.refs) : null;
+  const todo = (reason: string) => ({
+    lines: [
+      `// ${entry.tool} ${JSON.stringify({ ...p, session: undefined })}`,
+      `throw new Error(${q(`unconverted step #${entry.seq} ${entry.tool}: ${reason}`)});`,
+    ],
+    warning: `#${entry.seq} ${entry.tool}: ${reason}`,
+  });
+  if (p.selector !== undefined && !locator) {
+    return todo(`ref ${p.selector} has no recorded role/name`);
+  }
+  const target = p.selector;
+  const fieldName = entry.refs?.[target]?.name ||
+    (typeof target === "string" ? target : target?.name ?? target?.label ?? target?.placeholder ?? target?.testId ?? target?.text ?? "");
+  const timeout = p.timeout ? `{ timeout: ${p.timeout} }` : "";
+
+  switch (entry.tool) {
+    case "ab_open":
+      return {
+        lines: [
+          ...(p.profile ? [`// Session profile "${p.profile}" was restored here; use test.use({ storageState }) to reproduce it`] : []),
+          `await page.goto(${q(p.url)}${p.waitUntil && p.waitUntil !== "load" ? `, { waitUntil: ${q(p.waitUntil)} }` : ""});`,
+        ],
+      };
+    case "ab_navigate":
+      return { lines: [`await page.${{ back: "goBack", forward: "goForward", reload: "reload" }[p.action as string] ?? "reload"}();`] };
+    case "ab_click":
+      return { lines: [`await ${locator}.click();`] };
+    case "ab_fill":
+      return { lines: [`await ${locator}.fill(${specValue(p.value, fieldName)});`] };
+    case "ab_fill_form":
+      return { lines: fillFormStatements(p, entry.result, locator ?? undefined) };
+    case "ab_interact":
+      switch (p.action) {
+        case "press":
+          return { lines: [locator ? `await ${locator}.press(${q(p.value)});` : `await page.keyboard.press(${q(p.value)});`] };
+        case "scroll": {
+          if (locator) return { lines: [`await ${locator}.scrollIntoViewIfNeeded();`] };
+          const amount = p.amount ?? 300;
+          const [dx, dy] = { up: [0, -amount], down: [0, amount], left: [-amount, 0], right: [amount, 0] }[p.value as string] ?? [0, amount];
+          return { lines: [`await page.mouse.wheel(${dx}, ${dy});`] };
+        }
+        case "drag": {
+          const target = playwrightLocator(p.value, entry.refs);
+          return target ? { lines: [`await ${locator}.dragTo(${target});`] } : todo(`drag target ${p.value} has no recorded role/name`);
+        }
+        case "type":
+          return { lines: [`await ${locator}.pressSequentially(${specValue(p.value, fieldName)});`] };
+        case "select":
+          return { lines: [`await ${locator}.selectOption(${q(String(p.value))});`] };
+        case "hover":
+        case "focus":
+        case "check":
+        case "uncheck":
+        case "dblclick":
+          return { lines: [`await ${locator}.${p.action}();`] };
+      }
+      return todo(`unknown interaction "${p.action}"`);
+    case "ab_wait":
+      switch (p.for) {
+        case "selector":
+          return { lines: [`await ${locator}.waitFor(${timeout});`] };
+        case "hidden":
+          return { lines: [`await ${locator}.waitFor({ state: "hidden"${p.timeout ? `, timeout: ${p.timeout}` : ""} });`] };
+        case "text":
+          return { lines: [`await page.getByText(${q(p.text)}).first().waitFor(${timeout});`] };
+        case "url": {
+          const regex = /^\/(.+)\/([a-z]*)$/.exec(p.url ?? "");
+          const pattern = regex ? `new RegExp(${q(regex[1])}, ${q(regex[2])})` : q(p.url);
+          return { lines: [`await page.waitForURL(${pattern}${timeout ? `, ${timeout}` : ""});`] };
+        }
+        case "networkidle":
+          return { lines: [`await page.waitForLoadState("networkidle"${timeout ? `, ${timeout}` : ""});`] };
+        case "function":
+          return { lines: [`await page.waitForFunction(${q(p.expression)}, undefined${timeout ? `, ${timeout}` : ""});`] };
+        case "stable":
+          return { lines: [`await ${locator ?? "page.locator(\"body\")"}.waitFor(${timeout}); // was: wait for a stable layout`] };
+      }
+      return todo(`unknown wait condition "${p.for}"`);
+    case "ab_query": {
+      if (!assertQueries) return { lines: [] };
+      const data = entry.result && typeof entry.result === "object" ? entry.result.data ?? {} : null;
+      const line = data ? queryExpectation(p, data, locator) : null;
+      return line ? { lines: [line] } : todo("query result not recorded");
+    }
+    case "ab_assert": {
+      const line = assertExpectation(p, locator);
+      return line ? { lines: [line] } : todo(`unsupported assertion "${p.type}"`);
+    }
+    case "ab_settings":
+      if (p.action === "viewport") {
+        return { lines: [`await page.setViewportSize({ width: ${p.width}, height: ${p.height} });`] };
+      }
+      return todo(`device emulation; use test.use({ ...devices[${q(p.device)}] })`);
+  }
+  return todo("no Playwright equivalent");
+}
+
+// Successful, non-observational calls of a trace -> runnable @playwright/test spec
+function renderPlaywrightSpec(
+  title: string,
+  entries: TraceEntry[],
+  assertQueries: boolean
+): { code: string; steps: number; warnings: string[] } {
+  const body: string[] = [];
+  const warnings: string[] = [];
+  let steps = 0;
+  const device = entries.find((e) => e.ok && e.tool === "ab_settings" && e.params?.action === "device")?.params.device;
+  for (const entry of entries) {
+    if (!entry.ok || OBSERVE_ONLY_TOOLS.has(entry.tool) || UNTRACED_TOOLS.has(entry.tool)) continue;
+    if (device && entry.tool === "ab_settings" && entry.params?.device === device) continue;
+    const { lines, warning } = traceEntryToPlaywright(entry, assertQueries);
+    if (warning) warnings.push(warning);
+    if (lines.length && !warning) steps += 1;
+    body.push(...lines);
+  }
+  const code = [
+    `import { test, expect${device ? ", devices" : ""} } from "@playwright/test";`,
+    "",
+    ...(device ? [`test.use({ ...devices[${JSON.stringify(device)}] });`, ""] : []),
+    `test(${JSON.stringify(title)}, async ({ page }) => {`,
+    ...body.map((line) => `  ${line}`),
+    "});",
+    "",
+  ].join("\n");
+  return { code, steps, warnings };
+}
+
+// Refs and locators can't be used as CSS scopes, so tag the element and scope by attribute instead.
+// evaluateAll doesn't wait, so a missing element surfaces as the in-page "not found" error.
+function isCssSelector(session: SessionState, selector: string): boolean {
+  return !session.browser.isRef(selector) && !selector.startsWith("internal:");
+}
+
+async function scopeSelector(session: SessionState, selector: string, attribute: string): Promise<string> {
+  if (isCssSelector(session, selector)) {
+    return selector;
+  }
+  await session.browser.getLocator(selector).evaluateAll(
+    (els: any[], attr: string) => els[0]?.setAttribute(attr, ""),
+    attribute
+  );
+  return `[${attribute}]`;
+}
+
+async function clearScope(session: SessionState, attribute: string): Promise<void> {
+  await executeCommand(
+    { id: Date.now().toString(), action: "evaluate", script: `document.querySelector("[${attribute}]")?.removeAttribute("${attribute}")` },
+    session.browser
+  ).catch(() => {});
+}
+
+// Friendly names for landmark roles in ab_snapshot's `exclude`
+const LANDMARK_ALIASES: Record<string, string> = {
+  nav: "navigation",
+  header: "banner",
+  footer: "contentinfo",
+  aside: "complementary",
+};
+
+// Drop subtrees whose role is excluded (e.g. navigation, contentinfo)
+function excludeSnapshotRoles(tree: string, roles: string[]): string {
+  if (roles.length === 0) return tree;
+  const excluded = new Set(roles.map((r) => LANDMARK_ALIASES[r.toLowerCase()] ?? r.toLowerCase()));
+  const kept: string[] = [];
+  let skipIndent = -1;
+  for (const line of tree.split("\n")) {
+    const indent = line.length - line.trimStart().length;
+    if (skipIndent >= 0) {
+      if (indent > skipIndent || !line.trim()) continue;
+      skipIndent = -1;
+    }
+    const role = line.match(/^\s*-\s*(\w+)/)?.[1]?.toLowerCase();
+    if (role && excluded.has(role)) {
+      skipIndent = indent;
+      continue;
+    }
+    kept.push(line);
+  }
+  return kept.join("\n");
+}
+
+// One page of snapshot lines, bounded by node and character caps
+function pageSnapshot(
+  tree: string,
+  offset: number,
+  maxNodes?: number,
+  maxChars?: number
+): { text: string; next?: number; total: number } {
+  const lines = tree.split("\n");
+  const taken: string[] = [];
+  let chars = 0;
+  for (let i = offset; i < lines.length; i++) {
+    if (maxNodes !== undefined && taken.length >= maxNodes) break;
+    if (maxChars !== undefined && taken.length > 0 && chars + lines[i].length + 1 > maxChars) break;
+    taken.push(lines[i]);
+    chars += lines[i].length + 1;
+  }
+  const end = offset + taken.length;
+  return {
+    text: taken.join("\n"),
+    ...(end < lines.length ? { next: end } : {}),
+    total: lines.length,
+  };
+}
+
+interface SnapshotNode {
+  line: string;
+  value: string;
+}
+
+// Index snapshot lines by ancestry + role + name (refs renumber between snapshots, so they can't be the key)
+function indexSnapshot(tree: string): Map<string, SnapshotNode> {
+  const nodes = new Map<string, SnapshotNode>();
+  const counts = new Map<string, number>();
+  const stack: Array<{ indent: number; id: string }> = [];
+  let last: SnapshotNode | null = null;
+
+  for (const raw of tree.split("\n")) {
+    const indent = raw.length - raw.trimStart().length;
+    const line = raw.trim();
+    if (!line) continue;
+    const match = line.match(/^-\s*(\w+)(?:\s+"([^"]*)")?(.*)$/);
+    if (!match) {
+      // Metadata (e.g. "- /url: ...") or free text belongs to the node above it
+      if (last) last.value += `\n${line}`;
+      continue;
+    }
+    const [, role, name = "", rest] = match;
+    while (stack.length && stack[stack.length - 1].indent >= indent) stack.pop();
+
+    const id = `${role} "${name}"`;
+    const path = [...stack.map((s) => s.id), id].join(" > ");
+    const seen = counts.get(path) ?? 0;
+    counts.set(path, seen + 1);
+
+    const value = rest.replace(/\s*\[(ref|nth)=[^\]]*\]/g, "").trim();
+    last = { line: line.replace(/^-\s*/, ""), value };
+    nodes.set(`${path}#${seen}`, last);
+    stack.push({ indent, id });
+  }
+  return nodes;
+}
+
+function highestRef(tree: string): number {
+  let highest = 0;
+  for (const match of tree.matchAll(/\[ref=e(\d+)\]/g)) {
+    highest = Math.max(highest, Number(match[1]));
+  }
+  return highest;
+}
+
+// Keep the refs the agent already holds for nodes that survived since the previous snapshot (same
+// ancestry, role and name) and number new nodes past every ref issued so far, so a diff never
+// renumbers refs silently. Returns the rewritten tree and browser ref -> shown ref.
+function carrySnapshotRefs(
+  previous: { tree: string; lastRef?: number },
+  current: string
+): { tree: string; aliases: Map<string, string>; lastRef: number } {
+  const refOf = (node?: SnapshotNode) => node?.line.match(/\[ref=(e\d+)\]/)?.[1];
+  const before = indexSnapshot(previous.tree);
+  let lastRef = previous.lastRef ?? highestRef(previous.tree);
+  const aliases = new Map<string, string>();
+  for (const [key, node] of indexSnapshot(current)) {
+    const ref = refOf(node);
+    if (ref) aliases.set(ref, refOf(before.get(key)) ?? `e${++lastRef}`);
+  }
+  const tree = current.replace(/\[ref=(e\d+)\]/g, (match, ref) => (aliases.has(ref) ? `[ref=${aliases.get(ref)}]` : match));
+  return { tree, aliases, lastRef };
+}
+
+// Added, removed and changed nodes between two snapshot trees
+function diffSnapshots(previous: string, current: string): { added: string[]; removed: string[]; changed: string[] } {
+  const before = indexSnapshot(previous);
+  const after = indexSnapshot(current);
+  const added: string[] = [];
+  const removed: string[] = [];
+  const changed: string[] = [];
+
+  for (const [key, node] of after) {
+    const old = before.get(key);
+    if (!old) {
+      added.push(node.line);
+    } else if (old.value !== node.value) {
+      changed.push(`${node.line}  (was: ${old.line.replace(/\s*\[(ref|nth)=[^\]]*\]/g, "")})`);
+    }
+  }
+  for (const [key, node] of before) {
+    if (!after.has(key)) {
+      removed.push(node.line.replace(/\s*\[(ref|nth)=[^\]]*\]/g, ""));
+    }
+  }
+  return { added, removed, changed };
+}
+
+const REF_OVERLAY_ID = "__agent_browser_plugin_refs__";
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface RefBox {
+  number: number;
+  ref: string;
+  role: string;
+  name?: string;
+  box: Box;
+}
+
+function boxesOverlap(a: Box, b: Box): boolean {
+  return a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+}
+
+// Viewport-relative boxes for the refs of the last ab_snapshot, so labels match the tree the agent saw
+async function snapshotRefBoxes(session: SessionState): Promise<RefBox[]> {
+  const boxes: RefBox[] = [];
+  const refs: Map<string, SnapshotRef> = session.snapshotRefs?.refs ?? new Map(Object.entries<any>(session.browser.getRefMap()));
+  for (const [ref, data] of refs) {
+    let box: Box | null = null;
+    try {
+      box = await session.browser.getLocator(`@${data.ref ?? ref}`).boundingBox({ timeout: 1000 });
+    } catch {
+      box = null;
+    }
+    if (!box || box.width === 0 || box.height === 0) continue;
+    boxes.push({
+      number: parseInt(ref.replace(/^e/, ""), 10),
+      ref: `@${ref}`,
+      role: data.role,
+      ...(data.name ? { name: data.name } : {}),
+      box: { x: Math.round(box.x), y: Math.round(box.y), width: Math.round(box.width), height: Math.round(box.height) },
+    });
+  }
+  return boxes.sort((a, b) => a.number - b.number);
+}
+
+// Numbered boxes in document coordinates so they line up for viewport, full-page and element captures
+async function drawRefOverlay(session: SessionState, boxes: RefBox[]): Promise<void> {
+  const items = boxes.map((b) => ({ number: b.number, ...b.box }));
+  const script = `(() => {
+    var items = ${JSON.stringify(items)};
+    var root = document.createElement('div');
+    root.id = ${JSON.stringify(REF_OVERLAY_ID)};
+    root.style.cssText = 'position:absolute;top:0;left:0;width:0;height:0;pointer-events:none;z-index:2147483647;';
+    var sx = window.scrollX || 0;
+    var sy = window.scrollY || 0;
+    items.forEach(function (it) {
+      var box = document.createElement('div');
+      box.style.cssText = 'position:absolute;left:' + (it.x + sx) + 'px;top:' + (it.y + sy) + 'px;width:' + it.width + 'px;height:' + it.height + 'px;border:2px solid rgba(239,68,68,0.9);box-sizing:border-box;';
+      var tag = document.createElement('div');
+      tag.textContent = String(it.number);
+      tag.style.cssText = 'position:absolute;top:' + (it.y + sy < 16 ? '2px' : '-16px') + ';left:-2px;background:rgba(239,68,68,0.95);color:#fff;font:bold 11px/16px monospace;padding:0 4px;border-radius:2px;white-space:nowrap;';
+      box.appendChild(tag);
+      root.appendChild(box);
+    });
+    document.documentElement.appendChild(root);
+  })()`;
+  await executeCommand({ id: Date.now().toString(), action: "evaluate", script }, session.browser);
+}
+
+async function removeRefOverlay(session: SessionState): Promise<void> {
+  await executeCommand(
+    { id: Date.now().toString(), action: "evaluate", script: `document.getElementById(${JSON.stringify(REF_OVERLAY_ID)})?.remove()` },
+    session.browser
+  ).catch(() => {});
+}
+
+// Cut a padded element region out of a full-page capture
+function cropPng(file: string, region: Box, scroll: { x: number; y: number }, cssWidth: number | undefined, padding: number): void {
+  const src = PNG.sync.read(readFileSync(file));
+  const scale = cssWidth ? src.width / cssWidth : 1;
+  const x0 = Math.max(0, Math.floor((region.x + scroll.x - padding) * scale));
+  const y0 = Math.max(0, Math.floor((region.y + scroll.y - padding) * scale));
+  const x1 = Math.min(src.width, Math.ceil((region.x + scroll.x + region.width + padding) * scale));
+  const y1 = Math.min(src.height, Math.ceil((region.y + scroll.y + region.height + padding) * scale));
+  if (x1 <= x0 || y1 <= y0) {
+    throw new Error("Element is outside the captured page");
+  }
+  const out = new PNG({ width: x1 - x0, height: y1 - y0 });
+  PNG.bitblt(src, out, x0, y0, x1 - x0, y1 - y0, 0, 0);
+  writeFileSync(file, PNG.sync.write(out));
+}
+
+// Named viewports for ab_screenshot_matrix; anything else is treated as a device name
+const VIEWPORT_PRESETS: Record<string, { width: number; height: number }> = {
+  desktop: { width: 1440, height: 900 },
+  laptop: { width: 1280, height: 800 },
+  tablet: { width: 768, height: 1024 },
+  mobile: { width: 390, height: 844 },
+};
+
+const DEFAULT_MATRIX = ["desktop", "iPad Mini", "iPhone 14", "Pixel 7"];
+
+interface MatrixTarget {
+  label: string;
+  device?: string;
+  width?: number;
+  height?: number;
+}
+
+function resolveMatrixTarget(entry: any): MatrixTarget {
+  if (typeof entry === "string") {
+    const preset = VIEWPORT_PRESETS[entry.toLowerCase()];
+    return preset ? { label: entry, ...preset } : { label: entry, device: entry };
+  }
+  if (entry?.device) {
+    return { label: entry.label ?? entry.device, device: entry.device };
+  }
+  if (typeof entry?.width === "number" && typeof entry?.height === "number") {
+    return { label: entry.label ?? `${entry.width}x${entry.height}`, width: entry.width, height: entry.height };
+  }
+  throw new Error(`Invalid matrix entry: ${JSON.stringify(entry)}`);
+}
+
+// Box-filter downscale; returns the source untouched when no shrinking is needed
+function scalePng(src: PNG, scale: number): PNG {
+  if (scale >= 1) return src;
+  const width = Math.max(1, Math.round(src.width * scale));
+  const height = Math.max(1, Math.round(src.height * scale));
+  const out = new PNG({ width, height });
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y / scale);
+    const y1 = Math.min(src.height, Math.max(y0 + 1, Math.floor((y + 1) / scale)));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x / scale);
+      const x1 = Math.min(src.width, Math.max(x0 + 1, Math.floor((x + 1) / scale)));
+      const sum = [0, 0, 0, 0];
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * src.width + sx) * 4;
+          for (let c = 0; c < 4; c++) sum[c] += src.data[i + c];
+        }
+      }
+      const n = (y1 - y0) * (x1 - x0);
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) out.data[o + c] = Math.round(sum[c] / n);
+    }
+  }
+  return out;
+}
+
+// Lay captures out side by side at a common CSS-pixel scale so relative sizes stay comparable
+function composeContactSheet(
+  shots: Array<{ png: PNG; dpr: number }>,
+  maxHeight = 900,
+  gap = 24
+): PNG {
+  const tallest = Math.max(...shots.map((s) => s.png.height / s.dpr));
+  const cssScale = Math.min(1, maxHeight / tallest);
+  const scaled = shots.map((s) => scalePng(s.png, cssScale / s.dpr));
+
+  const width = scaled.reduce((w, p) => w + p.width, 0) + gap * (scaled.length + 1);
+  const height = Math.max(...scaled.map((p) => p.height)) + gap * 2;
+  const sheet = new PNG({ width, height });
+  for (let i = 0; i < sheet.data.length; i += 4) {
+    sheet.data[i] = 0xf6;
+    sheet.data[i + 1] = 0xf8;
+    sheet.data[i + 2] = 0xfa;
+    sheet.data[i + 3] = 0xff;
+  }
+
+  let x = gap;
+  for (const png of scaled) {
+    PNG.bitblt(png, sheet, 0, 0, png.width, png.height, x, gap);
+    x += png.width + gap;
+  }
+  return sheet;
+}
+
+// In-page WCAG rule checks. Evaluated as a string so it runs in the page context.
+const A11Y_AUDIT_SCRIPT = `(function (opts) {
+  var root = opts.scope ? document.querySelector(opts.scope) : document.body;
+  if (!root) throw new Error('Audit scope not found: ' + opts.scope);
+  var wantRule = function (id) { return !opts.rules || opts.rules.indexOf(id) >= 0; };
+  var results = [];
+  var report = function (rule, el, details) {
+    results.push({ rule: rule, selector: cssPath(el), role: roleOf(el), name: nameOf(el), snippet: snippet(el), details: details || null });
+  };
+
+  function cssPath(el) {
+    if (!el || el.nodeType !== 1) return '';
+    if (el.id && document.querySelectorAll('#' + CSS.escape(el.id)).length === 1) return '#' + CSS.escape(el.id);
+    var parts = [];
+    while (el && el.nodeType === 1 && el !== document.documentElement) {
+      var part = el.tagName.toLowerCase();
+      if (el.id && document.querySelectorAll('#' + CSS.escape(el.id)).length === 1) { parts.unshift('#' + CSS.escape(el.id)); break; }
+      var parent = el.parentElement;
+      if (parent) {
+        var same = Array.prototype.filter.call(parent.children, function (c) { return c.tagName === el.tagName; });
+        if (same.length > 1) part += ':nth-of-type(' + (same.indexOf(el) + 1) + ')';
+      }
+      parts.unshift(part);
+      el = parent;
+    }
+    return parts.join(' > ');
+  }
+  function snippet(el) {
+    var html = el.outerHTML || '';
+    var open = html.slice(0, html.indexOf('>') + 1) || html;
+    return open.length > 160 ? open.slice(0, 157) + '...' : open;
+  }
+  function roleOf(el) {
+    var explicit = el.getAttribute('role');
+    if (explicit) return explicit.split(' ')[0];
+    var tag = el.tagName.toLowerCase();
+    var type = (el.getAttribute('type') || 'text').toLowerCase();
+    if (tag === 'a' && el.hasAttribute('href')) return 'link';
+    if (tag === 'button') return 'button';
+    if (tag === 'img') return 'img';
+    if (tag === 'select') return el.multiple ? 'listbox' : 'combobox';
+    if (tag === 'textarea') return 'textbox';
+    if (tag === 'input') {
+      if (['button', 'submit', 'reset', 'image'].indexOf(type) >= 0) return 'button';
+      if (type === 'checkbox' || type === 'radio') return type;
+      if (type === 'range') return 'slider';
+      if (type === 'number') return 'spinbutton';
+      if (type === 'search') return 'searchbox';
+      return 'textbox';
+    }
+    if (/^h[1-6]$/.test(tag)) return 'heading';
+    return tag;
+  }
+  function textOf(el) {
+    return (el.innerText || el.textContent || '').replace(/\\s+/g, ' ').trim();
+  }
+  function nameOf(el) {
+    var label = el.getAttribute('aria-label');
+    if (label && label.trim()) return label.trim();
+    var labelledBy = el.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      var text = labelledBy.split(/\\s+/).map(function (id) {
+        var ref = document.getElementById(id);
+        return ref ? textOf(ref) : '';
+      }).join(' ').trim();
+      if (text) return text;
+    }
+    if (el.labels && el.labels.length) {
+      var labelText = Array.prototype.map.call(el.labels, textOf).join(' ').trim();
+      if (labelText) return labelText;
+    }
+    var tag = el.tagName.toLowerCase();
+    if (tag === 'img' || (tag === 'input' && el.type === 'image')) {
+      var alt = el.getAttribute('alt');
+      if (alt && alt.trim()) return alt.trim();
+    }
+    if (tag === 'input' && ['button', 'submit', 'reset'].indexOf(el.type) >= 0 && el.value) return el.value;
+    if (['button', 'a', 'summary'].indexOf(tag) >= 0 || el.getAttribute('role') === 'button' || el.getAttribute('role') === 'link') {
+      var inner = textOf(el);
+      if (inner) return inner;
+      var imgs = el.querySelectorAll('img[alt], svg[aria-label], [aria-label]');
+      for (var i = 0; i < imgs.length; i++) {
+        var n = (imgs[i].getAttribute('alt') || imgs[i].getAttribute('aria-label') || '').trim();
+        if (n) return n;
+      }
+    }
+    var title = el.getAttribute('title');
+    if (title && title.trim()) return title.trim();
+    var placeholder = el.getAttribute('placeholder');
+    if (placeholder && placeholder.trim()) return placeholder.trim();
+    return '';
+  }
+  function isVisible(el) {
+    var style = getComputedStyle(el);
+    if (style.display === 'none' || style.visibility === 'hidden' || style.opacity === '0') return false;
+    var rect = el.getBoundingClientRect();
+    return rect.width > 0 && rect.height > 0;
+  }
+  function all(selector) {
+    var found = Array.prototype.slice.call(root.querySelectorAll(selector));
+    if (root.matches && root.matches(selector)) found.unshift(root);
+    return found;
+  }
+  function parseColor(value) {
+    var m = value.match(/rgba?\\(([^)]+)\\)/);
+    if (!m) return null;
+    var p = m[1].split(/[ ,\\/]+/).filter(Boolean).map(parseFloat);
+    return { r: p[0], g: p[1], b: p[2], a: p.length > 3 ? p[3] : 1 };
+  }
+  function luminance(c) {
+    var ch = [c.r, c.g, c.b].map(function (v) {
+      v = v / 255;
+      return v <= 0.03928 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+    });
+    return 0.2126 * ch[0] + 0.7152 * ch[1] + 0.0722 * ch[2];
+  }
+  function backgroundOf(el) {
+    while (el && el.nodeType === 1) {
+      var style = getComputedStyle(el);
+      if (style.backgroundImage && style.backgroundImage !== 'none') return null;
+      var bg = parseColor(style.backgroundColor);
+      if (bg && bg.a >= 1) return bg;
+      el = el.parentElement;
+    }
+    return { r: 255, g: 255, b: 255, a: 1 };
+  }
+
+  if (wantRule('image-alt')) {
+    all('img, input[type=image], [role=img]').forEach(function (el) {
+      if (el.closest('[aria-hidden=true]')) return;
+      var tag = el.tagName.toLowerCase();
+      if (tag === 'img' && el.hasAttribute('alt')) return;
+      if (tag === 'img' && (el.getAttribute('role') === 'presentation' || el.getAttribute('role') === 'none')) return;
+      if (nameOf(el)) return;
+      report('image-alt', el);
+    });
+  }
+
+  if (wantRule('label')) {
+    all('input, select, textarea').forEach(function (el) {
+      var type = (el.getAttribute('type') || 'text').toLowerCase();
+      if (['hidden', 'button', 'submit', 'reset', 'image'].indexOf(type) >= 0) return;
+      if (!isVisible(el)) return;
+      if (!nameOf(el)) report('label', el);
+    });
+  }
+
+  if (wantRule('button-name')) {
+    all('button, [role=button], input[type=button], input[type=submit], input[type=reset]').forEach(function (el) {
+      if (isVisible(el) && !nameOf(el)) report('button-name', el);
+    });
+  }
+
+  if (wantRule('link-name')) {
+    all('a[href], [role=link]').forEach(function (el) {
+      if (isVisible(el) && !nameOf(el)) report('link-name', el);
+    });
+  }
+
+  if (wantRule('color-contrast')) {
+    var checked = 0;
+    all('body *').some(function (el) {
+      if (checked >= 2000) return true;
+      var hasText = Array.prototype.some.call(el.childNodes, function (n) { return n.nodeType === 3 && n.textContent.trim(); });
+      if (!hasText || !isVisible(el)) return false;
+      checked++;
+      var style = getComputedStyle(el);
+      var fg = parseColor(style.color);
+      var bg = backgroundOf(el);
+      if (!fg || !bg) return false;
+      var l1 = luminance(fg), l2 = luminance(bg);
+      var ratio = (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+      var size = parseFloat(style.fontSize);
+      var large = size >= 24 || (size >= 18.66 && parseInt(style.fontWeight, 10) >= 700);
+      var required = large ? 3 : 4.5;
+      if (ratio < required) {
+        report('color-contrast', el, 'Contrast ' + ratio.toFixed(2) + ':1, needs ' + required + ':1 (' + style.color + ' on ' + 'rgb(' + bg.r + ', ' + bg.g + ', ' + bg.b + '))');
+      }
+      return false;
+    });
+  }
+
+  if (wantRule('aria-hidden-focus')) {
+    all('[aria-hidden=true]').forEach(function (hidden) {
+      var focusables = [hidden].concat(Array.prototype.slice.call(hidden.querySelectorAll('a[href], button, input, select, textarea, [tabindex]')));
+      focusables.forEach(function (el) {
+        if (el.matches && !el.matches('a[href], button, input, select, textarea, [tabindex]')) return;
+        if (el.disabled || el.getAttribute('tabindex') === '-1' || el.type === 'hidden') return;
+        report('aria-hidden-focus', el);
+      });
+    });
+    all('[tabindex]').forEach(function (el) {
+      if (parseInt(el.getAttribute('tabindex'), 10) >= 0 && !el.closest('[aria-hidden=true]')) {
+        var style = getComputedStyle(el);
+        if (style.visibility === 'hidden' || style.opacity === '0') report('aria-hidden-focus', el, 'Focusable but visually hidden');
+      }
+    });
+  }
+
+  if (!opts.scope) {
+    if (wantRule('html-has-lang') && !document.documentElement.getAttribute('lang')) {
+      report('html-has-lang', document.documentElement);
+    }
+    if (wantRule('landmark-one-main')) {
+      var mains = document.querySelectorAll('main, [role=main]');
+      if (mains.length !== 1) {
+        report('landmark-one-main', mains[1] || document.body, mains.length === 0 ? 'No main landmark' : mains.length + ' main landmarks');
+      }
+    }
+    if (wantRule('page-has-heading-one') && !document.querySelector('h1, [role=heading][aria-level="1"]')) {
+      report('page-has-heading-one', document.body);
+    }
+  }
+
+  if (wantRule('heading-order')) {
+    var last = 0;
+    all('h1, h2, h3, h4, h5, h6').forEach(function (el) {
+      if (!isVisible(el)) return;
+      var level = parseInt(el.tagName.slice(1), 10);
+      if (last && level > last + 1) report('heading-order', el, 'h' + last + ' followed by h' + level);
+      last = level;
+    });
+  }
+
+  return results;
+})`;
+
+const A11Y_RULES: Record<string, { impact: "critical" | "serious" | "moderate" | "minor"; wcag: string; description: string }> = {
+  "image-alt": { impact: "critical", wcag: "1.1.1", description: "Images must have alternative text" },
+  "label": { impact: "critical", wcag: "1.3.1, 4.1.2", description: "Form fields must have labels" },
+  "button-name": { impact: "critical", wcag: "4.1.2", description: "Buttons must have discernible text" },
+  "link-name": { impact: "serious", wcag: "2.4.4, 4.1.2", description: "Links must have discernible text" },
+  "color-contrast": { impact: "serious", wcag: "1.4.3", description: "Text must have sufficient color contrast" },
+  "aria-hidden-focus": { impact: "serious", wcag: "4.1.2", description: "Hidden elements must not be focusable" },
+  "html-has-lang": { impact: "serious", wcag: "3.1.1", description: "The <html> element must have a lang attribute" },
+  "landmark-one-main": { impact: "moderate", wcag: "1.3.1", description: "Page must have exactly one main landmark" },
+  "page-has-heading-one": { impact: "moderate", wcag: "1.3.1", description: "Page should contain a level-one heading" },
+  "heading-order": { impact: "moderate", wcag: "1.3.1", description: "Heading levels should only increase by one" },
+};
+
+const IMPACT_ORDER = ["critical", "serious", "moderate", "minor"];
+
+interface A11yNode {
+  ref?: string;
+  selector: string;
+  snippet: string;
+  details?: string;
+}
+
+interface A11yViolation {
+  rule: string;
+  impact: string;
+  wcag: string;
+  description: string;
+  count: number;
+  nodes: A11yNode[];
+}
+
+// Run the in-page audit, group by rule and attach snapshot refs where role+name match
+async function runA11yAudit(session: SessionState, params: any): Promise<A11yViolation[]> {
+  const scope = params.selector ? await scopeSelector(session, params.selector, "data-ab-audit-scope") : undefined;
+  const script = `${A11Y_AUDIT_SCRIPT}(${JSON.stringify({ scope, rules: params.rules })})`;
+  const result = await executeCommand(
+    { id: Date.now().toString(), action: "evaluate", script },
+    session.browser
+  ) as any;
+  if (scope !== params.selector) {
+    await clearScope(session, "data-ab-audit-scope");
+  }
+  if (result?.success === false) {
+    throw new Error(result.error ?? "Audit failed");
+  }
+  const findings: any[] = result.data?.result ?? [];
+
+  // Refs from the snapshot the agent already holds, so the audit never renumbers them. Only when
+  // there is none yet does a fresh snapshot become the session's refs.
+  if (!session.snapshotRefs) {
+    await executeCommand({ id: Date.now().toString(), action: "snapshot" }, session.browser);
+    await recordSnapshotRefs(session);
+  }
+  const refQueues = new Map<string, Array<{ ref: string; nth: number }>>();
+  for (const [ref, data] of session.snapshotRefs?.refs ?? []) {
+    const key = `${data.role}|${data.name ?? ""}`;
+    if (!refQueues.has(key)) refQueues.set(key, []);
+    refQueues.get(key)!.push({ ref: `@${ref}`, nth: data.nth ?? 0 });
+  }
+  // Consumed in document order per role+name
+  for (const queue of refQueues.values()) queue.sort((a, b) => a.nth - b.nth);
+
+  const limit = params.maxNodes ?? 20;
+  const grouped = new Map<string, A11yViolation>();
+  for (const finding of findings) {
+    const meta = A11Y_RULES[finding.rule];
+    if (!meta) continue;
+    let violation = grouped.get(finding.rule);
+    if (!violation) {
+      violation = { rule: finding.rule, ...meta, count: 0, nodes: [] };
+      grouped.set(finding.rule, violation);
+    }
+    violation.count += 1;
+    const ref = refQueues.get(`${finding.role}|${finding.name ?? ""}`)?.shift()?.ref;
+    if (violation.nodes.length < limit) {
+      violation.nodes.push({
+        ...(ref ? { ref } : {}),
+        selector: finding.selector,
+        snippet: finding.snippet,
+        ...(finding.details ? { details: finding.details } : {}),
+      });
+    }
+  }
+
+  return [...grouped.values()].sort(
+    (a, b) => IMPACT_ORDER.indexOf(a.impact) - IMPACT_ORDER.indexOf(b.impact) || b.count - a.count
+  );
+}
+
+// Markdown summary of audit results for PR reports
+function a11yMarkdown(url: string | undefined, violations: A11yViolation[]): string {
+  const total = violations.reduce((n, v) => n + v.count, 0);
+  const lines = [`### Accessibility audit${url ? `: ${url}` : ""}`, ""];
+  if (total === 0) {
+    lines.push("✅ No violations found.");
+    return lines.join("\n");
+  }
+  lines.push(`Found **${total}** violation${total === 1 ? "" : "s"} across **${violations.length}** rule${violations.length === 1 ? "" : "s"}.`, "");
+  lines.push("| Impact | Rule | WCAG | Count |", "|--------|------|------|-------|");
+  for (const v of violations) {
+    lines.push(`| ${v.impact} | \`${v.rule}\` ${v.description} | ${v.wcag} | ${v.count} |`);
+  }
+  for (const v of violations) {
+    lines.push("", `<details><summary><code>${v.rule}</code> (${v.count})</summary>`, "");
+    for (const node of v.nodes) {
+      lines.push(`- ${node.ref ? `${node.ref} ` : ""}\`${node.selector}\`${node.details ? ` — ${node.details}` : ""}`);
+    }
+    if (v.count > v.nodes.length) lines.push(`- …and ${v.count - v.nodes.length} more`);
+    lines.push("", "</details>");
+  }
+  return lines.join("\n");
+}
+
+// In-page extraction of tables, repeated items and forms. Evaluated as a string like the a11y audit.
+const EXTRACT_SCRIPT = `(function (opts) {
+  function clean(text) { return (text || '').replace(/\\s+/g, ' ').trim(); }
+  function coerce(value, type) {
+    if (value === null || value === undefined) return null;
+    if (typeof value !== 'string') return value;
+    var text = clean(value);
+    if (type === 'string') return text;
+    if (text === '') return null;
+    if (type === 'boolean' || (!type && /^(true|false|yes|no)$/i.test(text))) return /^(true|yes|1|on)$/i.test(text);
+    var numeric = text.replace(/^[$€£¥]\\s?/, '').replace(/,/g, '').replace(/%$/, '');
+    if (/^[-+]?\\d*\\.?\\d+(e[-+]?\\d+)?$/i.test(numeric)) {
+      // Untyped values only become numbers when nothing is lost, so ZIP codes, zero-padded and
+      // long IDs stay strings ("129.50" still counts: only trailing decimal zeros are dropped)
+      if (type === 'number' || String(Number(numeric)) === numeric.replace(/(\\.\\d*?)0+$/, '$1').replace(/\\.$/, '')) return Number(numeric);
+    }
+    return type === 'number' ? null : text;
+  }
+  function visible(el) {
+    var rect = el.getBoundingClientRect();
+    return rect.width > 0 && rect.height > 0 && getComputedStyle(el).visibility !== 'hidden';
+  }
+  function field(el, spec) {
+    if (typeof spec === 'string') {
+      var at = spec.lastIndexOf('@');
+      spec = at >= 0 ? { selector: spec.slice(0, at), attr: spec.slice(at + 1) } : { selector: spec };
+    }
+    var target = spec.selector ? el.querySelector(spec.selector) : el;
+    if (!target) return null;
+    var raw = spec.attr ? target.getAttribute(spec.attr) : (target.value !== undefined && /^(INPUT|SELECT|TEXTAREA)$/.test(target.tagName) ? target.value : target.innerText || target.textContent);
+    if (spec.attr === 'href' || spec.attr === 'src') raw = raw && new URL(raw, location.href).href;
+    return coerce(raw, spec.type);
+  }
+
+  function cellsOf(row) {
+    return Array.prototype.filter.call(row.children, function (c) { return c.tagName === 'TD' || c.tagName === 'TH' || c.getAttribute('role') === 'cell' || c.getAttribute('role') === 'columnheader'; });
+  }
+  function table(el) {
+    var rows = Array.prototype.slice.call(el.querySelectorAll('tr, [role=row]'));
+    var head = el.querySelector('thead tr');
+    var headerRow = head || (rows[0] && rows[0].querySelector('th, [role=columnheader]') && !rows[0].querySelector('td, [role=cell]') ? rows[0] : null);
+    var columns = headerRow ? cellsOf(headerRow).map(function (c, i) { return clean(c.innerText) || 'column' + (i + 1); }) : [];
+    var data = [];
+    rows.forEach(function (row) {
+      if (row === headerRow || (row.parentElement && row.parentElement.tagName === 'THEAD')) return;
+      var cells = cellsOf(row);
+      if (cells.length === 0) return;
+      var record = {};
+      cells.forEach(function (cell, i) {
+        var key = columns[i] || 'column' + (i + 1);
+        if (!columns[i]) columns[i] = key;
+        record[key] = coerce(cell.innerText);
+      });
+      data.push(record);
+    });
+    return { type: 'table', columns: columns, data: data };
+  }
+
+  function list(el) {
+    var items;
+    if (opts.schema && opts.schema.item) {
+      items = Array.prototype.slice.call(el.querySelectorAll(opts.schema.item));
+    } else {
+      var children = Array.prototype.filter.call(el.children, function (c) { return visible(c); });
+      var tags = {};
+      children.forEach(function (c) { tags[c.tagName] = (tags[c.tagName] || 0) + 1; });
+      var common = Object.keys(tags).sort(function (a, b) { return tags[b] - tags[a]; })[0];
+      items = children.filter(function (c) { return c.tagName === common; });
+    }
+    var data = items.map(function (item) {
+      if (opts.schema && opts.schema.fields) {
+        var record = {};
+        Object.keys(opts.schema.fields).forEach(function (key) { record[key] = field(item, opts.schema.fields[key]); });
+        return record;
+      }
+      var link = item.matches('a[href]') ? item : item.querySelector('a[href]');
+      var entry = { text: clean(item.innerText) };
+      if (link) entry.href = link.href;
+      return entry;
+    });
+    return { type: 'list', data: data };
+  }
+
+  function form(el) {
+    var data = {};
+    Array.prototype.forEach.call(el.elements || el.querySelectorAll('input, select, textarea'), function (input) {
+      var type = (input.type || '').toLowerCase();
+      if (['submit', 'button', 'reset', 'image', 'file'].indexOf(type) >= 0 || input.tagName === 'BUTTON' || input.tagName === 'FIELDSET') return;
+      var label = input.labels && input.labels[0] ? clean(input.labels[0].innerText) : '';
+      var key = input.name || input.id || label || input.getAttribute('aria-label') || input.placeholder;
+      if (!key) return;
+      if (type === 'checkbox') {
+        var group = el.querySelectorAll('input[type=checkbox][name="' + CSS.escape(input.name || '') + '"]');
+        if (input.name && group.length > 1) {
+          data[key] = data[key] || [];
+          if (input.checked) data[key].push(input.value);
+        } else {
+          data[key] = input.checked;
+        }
+      } else if (type === 'radio') {
+        if (!(key in data)) data[key] = null;
+        if (input.checked) data[key] = input.value;
+      } else if (input.tagName === 'SELECT' && input.multiple) {
+        data[key] = Array.prototype.filter.call(input.options, function (o) { return o.selected; }).map(function (o) { return o.value; });
+      } else if (type === 'number' || type === 'range') {
+        data[key] = input.value === '' ? null : Number(input.value);
+      } else {
+        data[key] = input.value;
+      }
+    });
+    return { type: 'form', data: data };
+  }
+
+  var root = opts.scope ? document.querySelector(opts.scope) : null;
+  if (opts.scope && !root) throw new Error('Extraction target not found: ' + opts.scope);
+  var kind = opts.type && opts.type !== 'auto' ? opts.type : null;
+  if (!root) {
+    if (opts.schema && opts.schema.item) { root = document.body; kind = kind || 'list'; }
+    else if (kind) root = document.querySelector(kind === 'table' ? 'table' : kind === 'form' ? 'form' : 'ul, ol') || null;
+    else {
+      root = document.querySelector('table');
+      if (!root) root = document.querySelector('form');
+      if (!root) root = Array.prototype.find.call(document.querySelectorAll('ul, ol'), function (l) { return l.children.length > 1 && visible(l); }) || null;
+    }
+    if (!root) throw new Error('No ' + (kind || 'table, form or list') + ' found on the page');
+  }
+  if (!kind) {
+    if (opts.schema && opts.schema.item) kind = 'list';
+    else if (root.tagName === 'TABLE' || root.getAttribute('role') === 'table' || root.getAttribute('role') === 'grid') kind = 'table';
+    else if (root.tagName === 'FORM') kind = 'form';
+    else if (root.querySelector('table') && !/^(UL|OL|DL)$/.test(root.tagName)) { root = root.querySelector('table'); kind = 'table'; }
+    else kind = 'list';
+  }
+
+  var result = kind === 'table' ? table(root) : kind === 'form' ? form(root) : list(root);
+  var next = opts.next ? document.querySelector(opts.next) : null;
+  result.hasNext = !!(next && visible(next) && !next.disabled && next.getAttribute('aria-disabled') !== 'true');
+  result.signature = clean(root.innerText).slice(0, 500);
+  return result;
+})`;
+
+interface ExtractResult {
+  type: "table" | "list" | "form";
+  columns?: string[];
+  data: any;
+  hasNext: boolean;
+  signature: string;
+}
+
+async function extractOnce(session: SessionState, params: any, scope?: string): Promise<ExtractResult> {
+  let next = params.next;
+  if (next && !isCssSelector(session, next)) {
+    // Re-tag on every page: pagination usually re-renders the control
+    await clearScope(session, "data-ab-extract-next");
+    next = await scopeSelector(session, next, "data-ab-extract-next");
+  }
+  const options = { scope, type: params.type, schema: params.schema, next };
+  const result = await executeCommand(
+    { id: Date.now().toString(), action: "evaluate", script: `${EXTRACT_SCRIPT}(${JSON.stringify(options)})` },
+    session.browser
+  ) as any;
+  if (result?.success === false) {
+    throw new Error(result.error ?? "Extraction failed");
+  }
+  return result.data?.result;
+}
+
+// Extract, then follow the "next" control until it disappears, is disabled or maxPages is hit
+async function runExtraction(session: SessionState, params: any): Promise<Record<string, any>> {
+  const maxPages = params.next ? params.maxPages ?? 5 : 1;
+  const limit = params.limit ?? 500;
+  const scope = params.selector ? await scopeSelector(session, params.selector, "data-ab-extract-scope") : undefined;
+
+  try {
+    let page = await extractOnce(session, params, scope);
+    const type = page.type;
+    let columns = page.columns;
+    let data: any = type === "form" ? page.data : [...page.data];
+    let pages = 1;
+    let stopped: string | undefined;
+
+    while (type !== "form" && pages < maxPages && page.hasNext && data.length < limit) {
+      await executeCommand({ id: Date.now().toString(), action: "click", selector: params.next }, session.browser);
+      const previous = page.signature;
+      let nextPage = null as ExtractResult | null;
+      const changed = await pollUntil(async () => {
+        nextPage = await extractOnce(session, params, scope).catch(() => null);
+        return nextPage !== null && nextPage.signature !== previous;
+      }, params.pageTimeout ?? 10000, 250);
+      if (!changed || !nextPage) {
+        stopped = "Content did not change after clicking next";
+        break;
+      }
+      page = nextPage;
+      pages += 1;
+      data.push(...page.data);
+      for (const column of page.columns ?? []) {
+        if (columns && !columns.includes(column)) columns.push(column);
+      }
+    }
+
+    const truncated = Array.isArray(data) && data.length > limit;
+    if (truncated) data = data.slice(0, limit);
+    return {
+      type,
+      ...(Array.isArray(data) ? { count: data.length } : {}),
+      ...(params.next ? { pages } : {}),
+      ...(columns ? { columns } : {}),
+      data,
+      ...(truncated ? { truncated: true } : {}),
+      ...(page.hasNext && pages >= maxPages ? { morePages: true } : {}),
+      ...(stopped ? { stopped } : {}),
+    };
+  } finally {
+    if (scope !== params.selector) {
+      await clearScope(session, "data-ab-extract-scope");
+    }
+  }
+}
+
+// In-page field resolution for ab_fill_form: label, aria-label, placeholder, name/id, then group legends.
+// Matched controls are tagged with data-ab-fill so follow-up actions can target them by CSS.
+const RESOLVE_FIELDS_SCRIPT = `(function (opts) {
+  function norm(text) { return (text || '').replace(/\\s+/g, ' ').replace(/[*:]+$/, '').trim().toLowerCase(); }
+  var root = opts.scope ? document.querySelector(opts.scope) : document;
+  if (!root) throw new Error('Form not found: ' + opts.scope);
+  var controls = Array.prototype.filter.call(root.querySelectorAll('input, select, textarea, [role=textbox], [role=combobox], [role=checkbox], [role=switch]'), function (el) {
+    var type = (el.getAttribute('type') || '').toLowerCase();
+    return ['hidden', 'submit', 'button', 'reset', 'image'].indexOf(type) < 0 && !el.disabled;
+  });
+  document.querySelectorAll('[data-ab-fill]').forEach(function (el) { el.removeAttribute('data-ab-fill'); });
+
+  function labelOf(el) {
+    if (el.getAttribute('aria-label')) return el.getAttribute('aria-label');
+    var ids = el.getAttribute('aria-labelledby');
+    if (ids) return ids.split(/\\s+/).map(function (id) { var n = document.getElementById(id); return n ? n.textContent : ''; }).join(' ');
+    if (el.labels && el.labels.length) return el.labels[0].textContent;
+    return '';
+  }
+  function kindOf(el) {
+    var type = (el.getAttribute('type') || '').toLowerCase();
+    var role = el.getAttribute('role');
+    if (el.tagName === 'SELECT') return 'select';
+    if (type === 'checkbox' || role === 'checkbox' || role === 'switch') return 'checkbox';
+    if (type === 'radio') return 'radio';
+    if (['date', 'datetime-local', 'month', 'time', 'week'].indexOf(type) >= 0) return 'date';
+    return 'text';
+  }
+  function groupLabel(el) {
+    var group = el.closest('fieldset, [role=radiogroup], [role=group]');
+    if (!group) return '';
+    var legend = group.querySelector('legend');
+    return group.getAttribute('aria-label') || (legend ? legend.textContent : '');
+  }
+
+  var marker = 0;
+  function tag(el) {
+    if (!el.hasAttribute('data-ab-fill')) el.setAttribute('data-ab-fill', String(marker++));
+    return el.getAttribute('data-ab-fill');
+  }
+  function describe(key, by, matches) {
+    var first = matches[0];
+    var kind = kindOf(first);
+    var result = { key: key, by: by, kind: kind, type: (first.getAttribute('type') || '').toLowerCase() };
+    if ((kind === 'radio' || kind === 'checkbox') && (matches.length > 1 || first.name)) {
+      var group = matches.length > 1 ? matches : Array.prototype.filter.call(root.querySelectorAll('input[name="' + CSS.escape(first.name) + '"]'), function (el) { return kindOf(el) === kind; });
+      if (group.length > 1 || kind === 'radio') {
+        result.options = group.map(function (el) { return { marker: tag(el), value: el.value, label: labelOf(el).trim() }; });
+        return result;
+      }
+    }
+    result.marker = tag(first);
+    return result;
+  }
+
+  var strategies = [
+    ['label', function (el, k) { return norm(labelOf(el)) === k; }],
+    ['placeholder', function (el, k) { return norm(el.getAttribute('placeholder')) === k; }],
+    ['name', function (el, k) { return (el.getAttribute('name') || '').toLowerCase() === k || (el.id || '').toLowerCase() === k; }],
+    ['group', function (el, k) { return (kindOf(el) === 'radio' || kindOf(el) === 'checkbox') && norm(groupLabel(el)) === k; }],
+    ['label-contains', function (el, k) { return norm(labelOf(el) || el.getAttribute('placeholder')).indexOf(k) >= 0; }]
+  ];
+
+  return opts.fields.map(function (key) {
+    var k = norm(key);
+    for (var i = 0; i < strategies.length; i++) {
+      var matches = controls.filter(function (el) { return strategies[i][1](el, k); });
+      if (matches.length === 0) continue;
+      var kinds = matches.map(kindOf);
+      var grouped = kinds.every(function (kd) { return kd === kinds[0]; }) && (kinds[0] === 'radio' || kinds[0] === 'checkbox');
+      if (matches.length > 1 && !grouped) {
+        if (strategies[i][0] === 'label-contains') continue;
+        return { key: key, ambiguous: matches.length };
+      }
+      return describe(key, strategies[i][0], matches);
+    }
+    return { key: key, unmatched: true };
+  });
+})`;
+
+interface ResolvedField {
+  key: string;
+  by?: string;
+  kind?: "text" | "select" | "checkbox" | "radio" | "date";
+  type?: string;
+  marker?: string;
+  options?: Array<{ marker: string; value: string; label: string }>;
+  ambiguous?: number;
+  unmatched?: boolean;
+}
+
+function truthy(value: any): boolean {
+  return value === true || (typeof value === "string" && /^(true|yes|on|1|checked)$/i.test(value.trim()));
+}
+
+// Normalize dates to the formats Playwright's fill() expects for date-like inputs
+function formatDateValue(value: any, type: string): string {
+  const text = String(value);
+  const date = new Date(text);
+  if (/^\d{4}-\d{2}(-\d{2})?(T[\d:]+)?$/.test(text) || /^\d{2}:\d{2}/.test(text) || isNaN(date.getTime())) {
+    return text;
+  }
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  if (type === "datetime-local") return `${day}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  if (type === "month") return day.slice(0, 7);
+  return day;
+}
+
+// Fill one resolved field, preferring agent-browser's label/placeholder actions for plain text
+async function fillResolvedField(session: SessionState, field: ResolvedField, value: any, scope?: string): Promise<any> {
+  const run = (cmd: any) => executeCommand({ id: Date.now().toString(), ...cmd }, session.browser) as Promise<any>;
+  const selector = `[data-ab-fill="${field.marker}"]`;
+
+  switch (field.kind) {
+    case "select":
+      return run({ action: "select", selector, values: Array.isArray(value) ? value.map(String) : [String(value)] });
+    case "checkbox":
+      if (field.options) {
+        const wanted = (Array.isArray(value) ? value : [value]).map((v) => String(v).toLowerCase());
+        for (const option of field.options) {
+          const on = wanted.includes(option.value.toLowerCase()) || wanted.includes(option.label.toLowerCase());
+          const result = await run({ action: on ? "check" : "uncheck", selector: `[data-ab-fill="${option.marker}"]` });
+          if (result?.success === false) return result;
+        }
+        return { success: true };
+      }
+      return run({ action: truthy(value) ? "check" : "uncheck", selector });
+    case "radio": {
+      const wanted = String(value).toLowerCase();
+      const option = field.options?.find((o) => o.value.toLowerCase() === wanted || o.label.toLowerCase() === wanted);
+      if (!option) {
+        return { success: false, error: `No option "${value}" (available: ${field.options?.map((o) => o.label || o.value).join(", ")})` };
+      }
+      return run({ action: "check", selector: `[data-ab-fill="${option.marker}"]` });
+    }
+    case "date":
+      return run({ action: "fill", selector, value: formatDateValue(value, field.type ?? "date") });
+    default: {
+      // Prefer the exact label/placeholder within the form when it names exactly one element;
+      // otherwise fill the element the resolver tagged
+      const text = String(value);
+      const semantic = field.by === "label"
+        ? { label: field.key, exact: true }
+        : field.by === "placeholder" ? { placeholder: field.key, exact: true } : null;
+      if (semantic) {
+        const exact = `${scope ? `${scope} >> ` : ""}${toSelector(semantic)}`;
+        const count = (await run({ action: "count", selector: exact }))?.data?.count ?? 0;
+        if (count === 1) {
+          const result = await run({ action: "fill", selector: exact, value: text });
+          if (result?.success !== false) return result;
+        }
+      }
+      return run({ action: "fill", selector, value: text });
+    }
+  }
+}
+
+// Plugin registration
+export default function register(api: any) {
+  pluginConfig = api.config?.plugins?.entries?.["agent-browser-plugin"]?.config || api.config || {};
+  artifactStore = initArtifactStore(pluginConfig);
+  ffmpegAvailable = null;
+
+  // Ensure temp directory
+  // Use /tmp/openclaw/ to comply with OpenClaw mediaLocalRoots security (CVE-2026-25475)
+  const tempDir = join(tmpdir(), "openclaw", "agent-browser-plugin");
+  if (!existsSync(tempDir)) {
+    mkdirSync(tempDir, { recursive: true });
+  }
+  loadArtifactManifest(join(tempDir, "artifacts.json"));
+
+  // Age/disk-budget cleanup of the temp directory; in-progress recordings, the trace screenshots of
+  // live sessions (ab_trace and ab_report embed them) and the manifest are kept
+  const pruneArtifacts = () => {
+    const keep = new Set<string>();
+    for (const session of sessions.values()) {
+      if (session.recording && session.recordingPath) keep.add(session.recordingPath);
+      for (const entry of session.trace) {
+        if (entry.before) keep.add(entry.before);
+        if (entry.after) keep.add(entry.after);
+      }
+    }
+    return enforceRetention(tempDir, { maxAgeHours: 168, ...pluginConfig.retention }, keep);
+  };
+
+  // Keep a handle on every tool so ab_run can dispatch steps to them
+  const tools = new Map<string, any>();
+  // Locator normalization and stale-ref checks for one tool call. `traced` (when the call is
+  // being traced) learns whether the call types a secret, checked on the resolved selector.
+  const prepareAndRun = async (tool: any, execute: Function, id: string, params: any, traced?: { secret?: boolean }) => {
+    let normalized: any;
+    try {
+      normalized = normalizeLocators(params);
+    } catch (e: any) {
+      return { content: [{ type: "text", text: JSON.stringify({ error: e.message }) }] };
+    }
+
+    // Catch refs from an outdated snapshot before they hit nothing or the wrong element
+    const session = typeof normalized?.session === "string" ? sessions.get(normalized.session) : undefined;
+    let notes: string[] = [];
+    if (session) {
+      try {
+        ({ params: normalized, notes } = await resolveRefParams(session, normalized));
+      } catch (e: any) {
+        if (!(e instanceof StaleRefError)) throw e;
+        return { content: [{ type: "text", text: JSON.stringify(await staleRefReport(session, e)) }] };
+      }
+      if (traced) traced.secret = await isSecretInput(session, tool.name, normalized);
+    }
+
+    const result = await execute.call(tool, id, normalized);
+    if (notes.length && Array.isArray(result?.content)) {
+      result.content.push({ type: "text", text: notes.map((n) => `[ref] ${n}`).join("\n") });
+    }
+    return result;
+  };
+
+  // Every ab_* call is recorded on its session's trace (see ab_trace)
+  const traceDir = join(tempDir, "trace");
+  const registerTool = (tool: any) => {
+    const execute = tool.execute;
+    const wrapped = {
+      ...tool,
+      async execute(id: string, params: any) {
+        const sessionName = params?.session;
+        if (UNTRACED_TOOLS.has(tool.name) || typeof sessionName !== "string") {
+          return prepareAndRun(tool, execute, id, params);
+        }
+
+        const startedAt = new Date();
+        const existing = sessions.get(sessionName);
+        const refs = existing ? traceRefs(existing, params) : undefined;
+        const shot = (session: SessionState, phase: string) =>
+          captureTraceShot(session, traceDir, `${sessionName}-${session.traceSeq + 1}-${phase}`);
+        const before = existing?.traceScreenshots ? await shot(existing, "before") : undefined;
+
+        let result: any;
+        let thrown: any;
+        const traced: { secret?: boolean } = {};
+        try {
+          result = await prepareAndRun(tool, execute, id, params, traced);
+        } catch (e) {
+          thrown = e;
+        }
+
+        // ab_open creates the session; ab_close removes it
+        const session = sessions.get(sessionName);
+        if (session) {
+          const value = thrown ? undefined : toolResultValue(result);
+          const error = thrown ? thrown?.message ?? String(thrown) : toolResultError(value);
+          const after = session.traceScreenshots ? await shot(session, "after") : undefined;
+          // Calls that created the session weren't checked before running
+          const secret = (traced.secret ?? await isSecretInput(session, tool.name, params)) ||
+            Object.values(refs ?? {}).some((r) => SECRET_FIELD.test(r.name ?? ""));
+          appendTrace(session, {
+            tool: tool.name,
+            params: redactTraceParams(tool.name, params, secret, value),
+            startedAt: startedAt.toISOString(),
+            durationMs: Date.now() - startedAt.getTime(),
+            ok: !error,
+            ...(error ? { error } : {}),
+            result: traceResult(value),
+            ...(refs ? { refs } : {}),
+            ...(before ? { before } : {}),
+            ...(after ? { after } : {}),
+          });
+        }
+
+        if (thrown) throw thrown;
+        return result;
+      },
+    };
+    tools.set(tool.name, wrapped);
+    api.registerTool(wrapped);
+  };
+
+  // ========== CORE TOOLS ==========
+
+  // browser_open - Navigate to URL
+  registerTool({
+    name: "ab_open",
+    description: "Open a URL in the browser. Creates a new session if needed.",
+    parameters: {
+      type: "object",
+      properties: {
+        session: { type: "string", description: "Session name (e.g. 'pr-12345')" },
+        url: { type: "string", description: "URL to navigate to" },
+        waitUntil: {
+          type: "string",
+          enum: ["load", "domcontentloaded", "networkidle"],
+          default: "load",
+        },
+        profile: { type: "string", description: "Saved profile to restore before navigating (see ab_session_save)" },
+      },
+      required: ["session", "url"],
+    },
+    async execute(_id: string, params: any) {
+      const session = await getSession(params.session, pluginConfig);
+      if (params.profile && session.profile !== params.profile) {
+        try {
+          await loadProfile(session, params.profile);
+        } catch (e: any) {
+          return { content: [{ type: "text", text: JSON.stringify({ error: e.message }) }] };
+        }
+      }
+      const result = await executeCommand(
+        { id: Date.now().toString(), action: "navigate", url: params.url, waitUntil: params.waitUntil ?? "load" },
+        session.browser
+      );
+      return { content: [{ type: "text", text: JSON.stringify(result) }] };
+    },
+  });
+
+  // browser_navigate - History navigation
+  registerTool({
+    name: "ab_navigate",
+    description: "Navigate browser history: back, forward, or reload the page",
+    parameters: {
+      type: "object",
+      properties: {
+        session: { type: "string", description: "Session name" },
+        action: { type: "string", enum: ["back", "forward", "reload"], description: "Navigation action" },
+      },
+      required: ["session", "action"],
+    },
+    async execute(_id: string, params: any) {
+      const session = await getSession(params.session, pluginConfig);
+      const result = await executeCommand(
+        { id: Date.now().toString(), action: params.action },
+        session.browser
+      );
+      return { content: [{ type: "text", text: JSON.stringify(result) }] };
+    },
+  });
+
+  // browser_snapshot - Get accessibility tree
+  registerTool({
+    name: "ab_snapshot",
+    description: "Get accessibility tree with element refs (@e1, @e2, etc.) for interacting with elements. mode 'diff' returns only what changed since the previous snapshot.",
+    parameters: {
+      type: "object",
+      properties: {
+        session: { type: "string", description: "Session name" },
+        interactive: { type: "boolean", default: true, description: "Only show interactive elements" },
+        includeErrors: { type: "boolean", default: false, description: "Append a count of console errors, page exceptions and failed requests" },
+        mode: {
+          type: "string",
+          enum: ["full", "diff"],
+          default: "full",
+          description: "diff: only nodes added, removed or changed since the previous snapshot of this session. Refs you already have stay valid; new nodes get new refs",
+        },
+        selector: locatorParam("Ref (@e1) or CSS selector to scope the tree to"),
+        maxDepth: { type: "number", description: "Limit tree depth (full tree only, ignored with interactive)" },
+        exclude: {
+          type: "array",
+          items: { type: "string" },
+          description: "Roles whose subtrees are dropped, e.g. ['nav', 'footer', 'banner', 'complementary']",
+        },
+        maxNodes: { type: "number", description: "Max lines returned; the rest is available via `cursor`" },
+        maxChars: { type: "number", description: "Max characters returned; the rest is available via `cursor`" },
+        cursor: { type: "number", description: "Continue a truncated snapshot from this line (pages the previous snapshot without re-capturing)" },
+      },
+      required: ["session"],
+    },
+    async execute(_id: string, params: any) {
+      const session = await getSession(params.session, pluginConfig);
+      let text: string;
+
+      // Truncation footer pointing at the next page of the cached tree
+      const paged = (tree: string, offset: number) => {
+        const page = pageSnapshot(tree, offset, params.maxNodes, params.maxChars);
+        const shown = page.text ? page.text.split("\n").length : 0;
+        return page.next === undefined
+          ? page.text
+          : `${page.text}\n\n[truncated] Showing lines ${offset + 1}-${offset + shown} of ${page.total}. More available: call ab_snapshot with cursor: ${page.next}`;
+      };
+
+      if (params.cursor !== undefined) {
+        if (!session.lastSnapshot) {
+          return { content: [{ type: "text", text: JSON.stringify({ error: "No snapshot to continue. Call ab_snapshot without cursor first." }) }] };
+        }
+        text = paged(session.lastSnapshot.tree, params.cursor);
+      } else {
+        const command = {
+          action: "snapshot",
+          interactive: params.interactive ?? true,
+          ...(params.maxDepth !== undefined ? { maxDepth: params.maxDepth } : {}),
+        };
+        let result: any;
+        try {
+          const selector = params.selector ? await scopeSelector(session, params.selector, "data-ab-snapshot-scope") : undefined;
+          result = await executeCommand(
+            { id: Date.now().toString(), ...command, ...(selector ? { selector } : {}) },
+            session.browser
+          );
+          if (selector !== params.selector) {
+            await clearScope(session, "data-ab-snapshot-scope");
+          }
+        } catch (e: any) {
+          return { content: [{ type: "text", text: JSON.stringify({ error: e?.message ?? String(e) }) }] };
+        }
+        text = result.data?.snapshot || JSON.stringify(result);
+
+        if (typeof result.data?.snapshot === "string") {
+          let tree = excludeSnapshotRoles(result.data.snapshot, params.exclude ?? []);
+          const options = JSON.stringify({ ...command, selector: params.selector, exclude: params.exclude });
+          const previous = session.lastSnapshot;
+          const diffable = params.mode === "diff" && previous?.options === options;
+          let aliases: Map<string, string> | undefined;
+          let lastRef = highestRef(tree);
+          if (diffable) {
+            ({ tree, aliases, lastRef } = carrySnapshotRefs(previous!, tree));
+          }
+          session.lastSnapshot = { tree, options, lastRef };
+          await recordSnapshotRefs(session, aliases);
+          text = paged(tree, 0);
+
+          if (params.mode === "diff") {
+            if (!diffable) {
+              text = `[diff] No previous snapshot with these options; returning full tree.\n\n${text}`;
+            } else {
+              const { added, removed, changed } = diffSnapshots(previous!.tree, tree);
+              const changes = [
+                ...added.map((line) => `+ ${line}`),
+                ...removed.map((line) => `- ${line}`),
+                ...changed.map((line) => `~ ${line}`),
+              ];
+              const page = pageSnapshot(changes.join("\n"), 0, params.maxNodes, params.maxChars);
+              text = changes.length === 0
+                ? "[diff] No changes since previous snapshot."
+                : [
+                    `[diff] ${added.length} added, ${removed.length} removed, ${changed.length} changed since previous snapshot`,
+                    page.text,
+                    ...(page.next === undefined
+                      ? []
+                      : [`\n[truncated] Showing ${page.next} of ${page.total} changes. Full tree: call ab_snapshot with cursor: 0`]),
+                  ].join("\n");
+            }
+          }
+        }
+      }
+      if (params.includeErrors) {
+        const counts = countLogErrors(session.logs);
+        text += `\n\n[page errors] ${counts.error} console errors, ${counts.pageerror} uncaught exceptions, ${counts.network} failed requests` +
+          (counts.error + counts.pageerror + counts.network > 0 ? " (see ab_console)" : "");
+      }
+      return { content: [{ type: "text", text }] };
+    },
+  });
+
+  // browser_click - Click element
+  registerTool({
+    name: "ab_click",
+    description: "Click an element by ref (@e5) or CSS selector",
+    parameters: {
+      type: "object",
+      properties: {
+        session: { type: "string", description: "Session name" },
+        selector: locatorParam("Element ref (@e5) or CSS selector"),
+      },
+      required: ["session", "selector"],
+    },
+    async execute(_id: string, params: any) {
+      const session = await getSession(params.session, pluginConfig);
+      await annotateAction(session, `Click ${params.selector}`, { selector: params.selector, ripple: true });
+      const result = await executeCommand(
+        { id: Date.now().toString(), action: "click", selector: params.selector },
+        session.browser
+      );
+      return { content: [{ type: "text", text: JSON.stringify(result) }] };
+    },
+  });
+
+  // browser_fill - Fill input field
+  registerTool({
+    name: "ab_fill",
+    description: "Clear and fill an input field by ref or selector",
+    parameters: {
+      type: "object",
+      properties: {
+        session: { type: "string", description: "Session name" },
+        selector: locatorParam("Element ref (@e5) or CSS selector"),
+        value: { type: "string", description: "Value to fill" },
+      },
+      required: ["session", "selector", "value"],
+    },
+    async execute(_id: string, params: any) {
+      const session = await getSession(params.session, pluginConfig);
+      await annotateAction(session, `Fill ${params.selector}`, { selector: params.selector, text: params.value, ripple: true });
+      const result = await executeCommand(
+        { id: Date.now().toString(), action: "fill", selector: params.selector, value: params.value },
+        session.browser
+      );
+      return { content: [{ type: "text", text: JSON.stringify(result) }] };
+    },
+  });
+
+  // browser_fill_form - Fill a whole form from a field map
+  registerTool({
+    name: "ab_fill_form",
+    description: "Fill several form fields in one call from { 'label, placeholder, name or group legend': value }. Handles text, select, checkbox (boolean or list of options), radio (option value or label) and date inputs, optionally submits, and reports unmatched fields.",
+    parameters: {
+      type: "object",
+      properties: {
+        session: { type: "string", description: "Session name" },
+        fields: { type: "object", description: "Field identifier -> value, e.g. { 'Email': 'qa@example.com', 'Country': 'Canada', 'Accept terms': true }" },
+        selector: locatorParam("Ref or CSS selector of the form to search within (default: whole page)"),
+        submit: {
+          oneOf: [{ type: "boolean" }, ...locatorParam("").oneOf],
+          description: "true clicks the form's submit button; a ref, selector or locator clicks that element instead",
+        },
+      },
+      required: ["session", "fields"],
+    },
+    async execute(_id: string, params: any) {
+      const session = await getSession(params.session, pluginConfig);
+      const text = (value: any) => ({ content: [{ type: "text", text: JSON.stringify(value) }] });
+      const run = (cmd: any) => executeCommand({ id: Date.now().toString(), ...cmd }, session.browser) as Promise<any>;
+      const fields: Record<string, any> = params.fields ?? {};
+
+      let scope: string | undefined;
+      let resolved: ResolvedField[];
+      try {
+        scope = params.selector ? await scopeSelector(session, params.selector, "data-ab-fill-scope") : undefined;
+        const result = await run({ action: "evaluate", script: `${RESOLVE_FIELDS_SCRIPT}(${JSON.stringify({ scope, fields: Object.keys(fields) })})` });
+        if (result?.success === false) {
+          throw new Error(result.error ?? "Field resolution failed");
+        }
+        resolved = result.data?.result ?? [];
+      } catch (e: any) {
+        return text({ error: e?.message ?? String(e) });
+      }
+
+      const filled: Array<Record<string, any>> = [];
+      const unmatched: string[] = [];
+      const ambiguous: Array<{ field: string; matches: number }> = [];
+      const failed: Array<{ field: string; error: string }> = [];
+      let submitted = false;
+
+      try {
+        for (const field of resolved) {
+          if (field.unmatched) {
+            unmatched.push(field.key);
+            continue;
+          }
+          if (field.ambiguous) {
+            ambiguous.push({ field: field.key, matches: field.ambiguous });
+            continue;
+          }
+          const value = fields[field.key];
+          const target = field.marker ?? field.options?.[0]?.marker;
+          await annotateAction(session, `Fill ${field.key}`, {
+            selector: `[data-ab-fill="${target}"]`,
+            text: field.kind === "text" || field.kind === "date" ? String(value) : undefined,
+            ripple: true,
+          });
+          const result = await fillResolvedField(session, field, value, scope);
+          if (result?.success === false) {
+            failed.push({ field: field.key, error: result.error ?? "Fill failed" });
+          } else {
+            filled.push({
+              field: field.key,
+              by: field.by,
+              kind: field.kind,
+              ...(field.kind === "date" || field.type === "password" ? { type: field.type } : {}),
+            });
+          }
+        }
+
+        if (params.submit) {
+          let selector = typeof params.submit === "string" ? params.submit : null;
+          if (!selector) {
+            const found = await run({
+              action: "evaluate",
+              script: `(() => {
+                var start = ${JSON.stringify(scope ?? null)} ? document.querySelector(${JSON.stringify(scope ?? "")}) : document.querySelector('[data-ab-fill]');
+                var form = start && (start.tagName === 'FORM' ? start : start.closest('form')) || document.querySelector('form');
+                var button = form && form.querySelector('button[type=submit], input[type=submit], button:not([type])');
+                if (button) button.setAttribute('data-ab-fill', 'submit');
+                return !!button;
+              })()`,
+            });
+            if (found.data?.result) selector = `[data-ab-fill="submit"]`;
+          }
+          if (selector) {
+            await annotateAction(session, "Submit form", { selector, ripple: true });
+            const result = await run({ action: "click", selector });
+            submitted = result?.success !== false;
+            if (!submitted) failed.push({ field: "(submit)", error: result.error ?? "Submit failed" });
+          } else {
+            failed.push({ field: "(submit)", error: "No submit button found" });
+          }
+        }
+      } finally {
+        await run({
+          action: "evaluate",
+          script: `document.querySelectorAll('[data-ab-fill]').forEach((el) => el.removeAttribute('data-ab-fill'))`,
+        }).catch(() => {});
+        if (scope !== params.selector) {
+          await clearScope(session, "data-ab-fill-scope");
+        }
+      }
+
+      const problems = [
+        ...unmatched.map((f) => `${f} (no match)`),
+        ...ambiguous.map((a) => `${a.field} (${a.matches} matches)`),
+        ...failed.map((f) => `${f.field} (${f.error})`),
+      ];
+      return text({
+        complete: problems.length === 0,
+        filled,
+        unmatched,
+        ...(ambiguous.length ? { ambiguous } : {}),
+        ...(failed.length ? { failed } : {}),
+        ...(params.submit ? { submitted } : {}),
+        ...(problems.length ? { error: `Not filled: ${problems.join(", ")}` } : {}),
+      });
+    },
+  });
+
+  // browser_interact - Multiple interaction types
+  registerTool({
+    name: "ab_interact",
+    description: "Interact with elements: hover, focus, drag, scroll, type, press, select, check, uncheck, dblclick",
+    parameters: {
+      type: "object",
+      properties: {
+        session: { type: "string", description: "Session name" },
+        action: {
+          type: "string",
+          enum: ["hover", "focus", "drag", "scroll", "type", "press", "select", "check", "uncheck", "dblclick"],
+          description: "Interaction type",
+        },
+        selector: locatorParam("Element ref or selector (not needed for scroll, press)"),
+        value: { type: "string", description: "Value for type/select, target for drag (ref, selector or locator), key for press, direction for scroll (up/down/left/right)" },
+        amount: { type: "number", description: "Pixels for scroll (default 300)" },
+      },
+      required: ["session", "action"],
+    },
+    async execute(_id: string, params: any) {
+      const session = await getSession(params.session, pluginConfig);
+      const cmd: any = { id: Date.now().toString(), action: params.action };
+
+      // agent-browser's drag takes source/target, not selector
+      if (params.action === "drag") {
+        cmd.source = params.selector;
+        cmd.target = params.value;
+      } else if (params.selector) {
+        cmd.selector = params.selector;
+      }
+      if (params.action === "type") cmd.text = params.value;
+      if (params.action === "press") cmd.key = params.value;
+      if (params.action === "select") cmd.values = [params.value];
+      if (params.action === "scroll") {
+        cmd.direction = params.value || "down";
+        cmd.amount = params.amount || 300;
+      }
+
+      const target = params.selector ?? (params.action === "scroll" ? cmd.direction : params.value);
+      await annotateAction(session, `${params.action}${target ? ` ${target}` : ""}`, {
+        selector: params.selector,
+        text: params.action === "type" || params.action === "press" ? params.value : undefined,
+        ripple: ["hover", "focus", "check", "uncheck", "dblclick", "select", "type", "drag"].includes(params.action),
+      });
+
+      const result = await executeCommand(cmd, session.browser);
+      return { content: [{ type: "text", text: JSON.stringify(result) }] };
+    },
+  });
+
+  // browser_wait - Wait for page conditions
+  registerTool({
+    name: "ab_wait",
+    description: "Wait for a condition: element appears (selector), disappears (hidden), stops moving (stable), text appears, URL matches, network idle, or a JS expression becomes truthy",
+    parameters: {
+      type: "object",
+      properties: {
+        session: { type: "string", description: "Session name" },
+        for: {
+          type: "string",
+          enum: ["selector", "hidden", "stable", "text", "url", "networkidle", "function"],
+          description: "Condition to wait for",
+        },
+        selector: locatorParam("Element ref or selector (for selector, hidden, stable)"),
+        text: { type: "string", description: "Text to wait for anywhere on the page (for text)" },
+        url: { type: "string", description: "URL glob (e.g. '**/dashboard') or /regex/ (for url)" },
+        expression: { type: "string", description: "JS expression to wait on until truthy (for function)" },
+        timeout: { type: "number", default: 10000, description: "Timeout in ms" },
+      },
+      required: ["session", "for"],
+    },
+    async execute(_id: string, params: any) {
+      const session = await getSession(params.session, pluginConfig);
+      const timeout = params.timeout ?? 10000;
+      const started = Date.now();
+
+      try {
+        await waitForCondition(session, params, timeout);
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ waited: true, for: params.for, elapsedMs: Date.now() - started }),
+          }],
+        };
+      } catch (e: any) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              waited: false,
+              for: params.for,
+              ...(params.selector ? { selector: params.selector } : {}),
+              ...(params.text ? { text: params.text } : {}),
+              ...(params.url ? { url: params.url } : {}),
+              ...(params.expression ? { expression: params.expression } : {}),
+              timeoutMs: timeout,
+              elapsedMs: Date.now() - started,
+              error: e?.message ?? String(e),
+              diagnostics: await waitDiagnostics(session, params),
+            }),
+          }],
+        };
+      }
+    },
+  });
+
+  // browser_query - Get info/state from page
+  registerTool({
+    name: "ab_query",
+    description: "Query page info: gettext, isvisible, isenabled, ischecked, title, url, count",
+    parameters: {
+      type: "object",
+      properties: {
+        session: { type: "string", description: "Session name" },
+        action: {
+          type: "string",
+          enum: ["gettext", "isvisible", "isenabled", "ischecked", "title", "url", "count", "getattribute"],
+          description: "Query type",
+        },
+        selector: locatorParam("Element ref or selector (required for element queries)"),
+        attribute: { type: "string", description: "Attribute name (for getattribute)" },
+      },
+      required: ["session", "action"],
+    },
+    async execute(_id: string, params: any) {
+      const session = await getSession(params.session, pluginConfig);
+      const cmd: any = { id: Date.now().toString(), action: params.action };
+      if (params.selector) cmd.selector = params.selector;
+      if (params.attribute) cmd.attribute = params.attribute;
+
+      const result = await executeCommand(cmd, session.browser);
+      return { content: [{ type: "text", text: JSON.stringify(result) }] };
+    },
+  });
+
+  // browser_extract - Tables, lists and forms to JSON
+  registerTool({
+    name: "ab_extract",
+    description: "Extract structured JSON from a table (rows keyed by header), repeated list items (auto or a field-to-selector schema) or a form (field values). Follows a 'next' control for pagination. Numbers, currency, percentages and booleans are typed; values that would lose digits (ZIP codes, zero-padded or long IDs) stay strings unless a schema field sets type: 'number'.",
+    parameters: {
+      type: "object",
+      properties: {
+        session: { type: "string", description: "Session name" },
+        selector: locatorParam("Ref or CSS selector of the table, list container or form (omit to auto-detect)"),
+        type: { type: "string", enum: ["auto", "table", "list", "form"], default: "auto", description: "What to extract" },
+        schema: {
+          type: "object",
+          description: "Repeated items: { item: '.card', fields: { title: 'h3', price: '.price', url: 'a@href', id: '@data-id' } }. A field may also be { selector, attr, type: 'string'|'number'|'boolean' }.",
+          properties: {
+            item: { type: "string", description: "Selector matching each item" },
+            fields: { type: "object", description: "Field name -> selector ('sel@attr' reads an attribute)" },
+          },
+        },
+        next: locatorParam("Selector of the 'next page' control; followed until disabled or maxPages"),
+        maxPages: { type: "number", default: 5, description: "Max pages to visit when paginating" },
+        pageTimeout: { type: "number", default: 10000, description: "Max ms to wait for new content after clicking next" },
+        limit: { type: "number", default: 500, description: "Max rows/items returned" },
+      },
+      required: ["session"],
+    },
+    async execute(_id: string, params: any) {
+      const session = await getSession(params.session, pluginConfig);
+      try {
+        const result = await runExtraction(session, params);
+        return { content: [{ type: "text", text: JSON.stringify(result) }] };
+      } catch (e: any) {
+        return { content: [{ type: "text", text: JSON.stringify({ error: e?.message ?? String(e) }) }] };
+      }
+    },
+  });
+
+  // browser_assert - Typed assertions with structured verdicts
+  registerTool({
+    name: "ab_assert",
+    description: "Assert page state and get a machine-readable verdict {passed, expected, actual}: text_contains, text_equals, visible, enabled, checked, url_matches, title_matches, count, attribute",
+    parameters: {
+      type: "object",
+      properties: {
+        session: { type: "string", description: "Session name" },
+        type: {
+          type: "string",
+          enum: ["text_contains", "text_equals", "visible", "enabled", "checked", "url_matches", "title_matches", "count", "attribute"],
+          description: "Assertion type",
+        },
+        selector: locatorParam("Element ref or selector (required for element assertions)"),
+        expected: { description: "Expected value: text, regex (url/title), number (count), boolean (visible/enabled/checked, default true), attribute value" },
+        attribute: { type: "string", description: "Attribute name (for attribute)" },
+        not: { type: "boolean", default: false, description: "Invert the assertion" },
+        timeout: { type: "number", description: "Retry until passing or this many ms elapse (default 0: check once)" },
+      },
+      required: ["session", "type"],
+    },
+    async execute(_id: string, params: any) {
+      const session = await getSession(params.session, pluginConfig);
+      const timeout = params.timeout ?? 0;
+      const started = Date.now();
+
+      let attempts = 0;
+      let verdict: AssertionVerdict;
+      while (true) {
+        attempts += 1;
+        verdict = await evaluateAssertion(session, params);
+        if (verdict.passed || Date.now() - started >= timeout) break;
+        await new Promise((r) => setTimeout(r, Math.min(250, timeout)));
+      }
+
+      const target = params.selector ? ` ${params.selector}` : "";
+      const message = verdict.passed
+        ? `${params.type}${target} passed`
+        : verdict.error
+          ? `${params.type}${target} failed: ${verdict.error}`
+          : `${params.type}${target} failed: expected ${params.not ? "not " : ""}${JSON.stringify(verdict.expected)}, got ${JSON.stringify(verdict.actual)}`;
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            passed: verdict.passed,
+            assertion: params.type,
+            ...(params.selector ? { selector: params.selector } : {}),
+            expected: verdict.expected,
+            actual: verdict.actual,
+            ...(params.not ? { not: true } : {}),
+            attempts,
+            elapsedMs: Date.now() - started,
+            message,
+          }),
+        }],
+      };
+    },
+  });
+
+  // browser_screenshot - Screenshot with optional device emulation
+  registerTool({
+    name: "ab_screenshot",
+    description: "Take a screenshot of the viewport, full page or one element (ref or selector, with optional padding), optionally emulating a device first. `annotate` draws numbered boxes for the refs from the last ab_snapshot. Returns local path and storage URL if configured.",
+    parameters: {
+      type: "object",
+      properties: {
+        session: { type: "string", description: "Session name" },
+        label: { type: "string", description: "Label for filename" },
+        fullPage: { type: "boolean", default: false, description: "Capture full page" },
+        device: { type: "string", description: "Device to emulate before screenshot (e.g. 'iPhone 14', 'Pixel 5')" },
+        selector: locatorParam("Ref (@e1) or CSS selector to capture just that element"),
+        padding: { type: "number", default: 0, description: "Extra pixels around the element (with selector)" },
+        annotate: { type: "boolean", default: false, description: "Overlay numbered boxes for refs from the last ab_snapshot" },
+      },
+      required: ["session"],
+    },
+    async execute(_id: string, params: any) {
+      const session = await getSession(params.session, pluginConfig);
+
+      // Apply device emulation if specified
+      if (params.device) {
+        const applied = await executeCommand(
+          { id: Date.now().toString(), action: "device", device: params.device },
+          session.browser
+        ) as any;
+        if (applied?.success !== false) session.device = params.device;
+      }
+
+      const label = params.label || `screenshot-${Date.now()}`;
+      const filename = uniqueFilename(tempDir, `${params.session}-${label}.png`);
+      const localPath = join(tempDir, filename);
+      const padding = Math.max(0, params.padding ?? 0);
+      const fail = (error: string) => ({ content: [{ type: "text", text: JSON.stringify({ error }) }] });
+
+      let target: Box | null = null;
+      if (params.selector) {
+        const locator = session.browser.getLocator(params.selector);
+        try {
+          await locator.scrollIntoViewIfNeeded({ timeout: 5000 });
+          target = await locator.boundingBox({ timeout: 5000 });
+        } catch {
+          target = null;
+        }
+        if (!target) {
+          return fail(`Element not found or not visible: ${params.selector}`);
+        }
+      }
+
+      const metrics = target || params.annotate
+        ? await executeCommand(
+            { id: Date.now().toString(), action: "evaluate", script: "({ x: window.scrollX, y: window.scrollY, width: window.innerWidth, height: window.innerHeight })" },
+            session.browser
+          ) as any
+        : null;
+      const { x: scrollX = 0, y: scrollY = 0, width: cssWidth, height: cssHeight } = metrics?.data?.result ?? {};
+
+      let annotations: RefBox[] = [];
+      if (params.annotate) {
+        if (Object.keys(session.browser.getRefMap()).length === 0) {
+          return fail("No refs to annotate. Call ab_snapshot first.");
+        }
+        const frame = target
+          ? { x: target.x - padding, y: target.y - padding, width: target.width + padding * 2, height: target.height + padding * 2 }
+          : !params.fullPage && cssWidth && cssHeight
+            ? { x: 0, y: 0, width: cssWidth, height: cssHeight }
+            : null;
+        annotations = (await snapshotRefBoxes(session)).filter((a) => !frame || boxesOverlap(a.box, frame));
+        await drawRefOverlay(session, annotations);
+      }
+
+      try {
+        // Padded element shots capture the full page and crop it afterwards
+        const shot = await executeCommand(
+          target && padding > 0
+            ? { id: Date.now().toString(), action: "screenshot", path: localPath, fullPage: true }
+            : target
+              ? { id: Date.now().toString(), action: "screenshot", path: localPath, selector: params.selector }
+              : { id: Date.now().toString(), action: "screenshot", path: localPath, fullPage: params.fullPage ?? false },
+          session.browser
+        ) as any;
+        if (shot?.success === false || !existsSync(localPath)) {
+          return fail(shot?.error ?? "Screenshot failed");
+        }
+        if (target && padding > 0) {
+          cropPng(localPath, target, { x: scrollX, y: scrollY }, cssWidth, padding);
+        }
+      } catch (e: any) {
+        return fail(e?.message ?? String(e));
+      } finally {
+        if (params.annotate) {
+          await removeRefOverlay(session);
+        }
+      }
+
+      const upload = await uploadArtifact(localPath, filename, "image/png", session);
+      const remoteUrl = upload.url;
+      const markdown = remoteUrl ? `![${label}](${remoteUrl})` : null;
+      const legend = annotations.length
+        ? `Annotated refs:\n${annotations.map((a) => `[${a.number}] ${a.ref} ${a.role}${a.name ? ` "${a.name}"` : ""}`).join("\n")}\n\n`
+        : "";
+
+      return {
+        content: [{
+          type: "text",
+          text: remoteUrl
+            ? `Screenshot captured and uploaded.\n\n${markdown}\n\n${legend}Include the above markdown image in your report.`
+            : `Screenshot saved locally: ${localPath}\n\n${legend}${noUrlNote(upload)}`,
+        }],
+      };
+    },
+  });
+
+  // browser_screenshot_matrix - Responsive captures across devices
+  registerTool({
+    name: "ab_screenshot_matrix",
+    description: "Capture the current page across several devices/viewports (default: desktop, iPad Mini, iPhone 14, Pixel 7), restore the original device emulation and viewport, and upload each image plus a composite contact sheet.",
+    parameters: {
+      type: "object",
+      properties: {
+        session: { type: "string", description: "Session name" },
+        label: { type: "string", description: "Label for filenames" },
+        targets: {
+          type: "array",
+          items: {
+            oneOf: [
+              { type: "string", description: `Device name or preset (${Object.keys(VIEWPORT_PRESETS).join(", ")})` },
+              {
+                type: "object",
+                properties: {
+                  label: { type: "string" },
+                  device: { type: "string" },
+                  width: { type: "number" },
+                  height: { type: "number" },
+                },
+              },
+            ],
+          },
+          description: "Devices or viewports to capture",
+        },
+        fullPage: { type: "boolean", default: false, description: "Capture full page" },
+        settleMs: { type: "number", default: 300, description: "Wait after resizing so responsive layouts settle" },
+      },
+      required: ["session"],
+    },
+    async execute(_id: string, params: any) {
+      const session = await getSession(params.session, pluginConfig);
+      const text = (value: any) => ({ content: [{ type: "text", text: JSON.stringify(value) }] });
+
+      let targets: MatrixTarget[];
+      try {
+        targets = (params.targets?.length ? params.targets : DEFAULT_MATRIX).map(resolveMatrixTarget);
+      } catch (e: any) {
+        return text({ error: e.message });
+      }
+
+      const original = session.browser.getPage().viewportSize?.() ?? {
+        width: pluginConfig.viewport?.width ?? 1280,
+        height: pluginConfig.viewport?.height ?? 720,
+      };
+      const label = params.label || `matrix-${Date.now()}`;
+      const captures: Array<Record<string, any>> = [];
+      const shots: Array<{ png: PNG; dpr: number }> = [];
+
+      try {
+        for (const target of targets) {
+          const slug = target.label.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+          const filename = uniqueFilename(tempDir, `${params.session}-${label}-${slug}.png`);
+          const localPath = join(tempDir, filename);
+
+          const descriptor = target.device ? session.browser.getDevice(target.device) : undefined;
+          const viewport = descriptor?.viewport ?? { width: target.width, height: target.height };
+          const dpr = descriptor?.deviceScaleFactor ?? 1;
+          let applied: any;
+          if (target.device) {
+            applied = await executeCommand(
+              { id: Date.now().toString(), action: "device", device: target.device },
+              session.browser
+            );
+          } else {
+            await session.browser.clearDeviceMetricsOverride().catch(() => {});
+            applied = await executeCommand(
+              { id: Date.now().toString(), action: "viewport", width: target.width, height: target.height },
+              session.browser
+            );
+          }
+          if (applied?.success === false) {
+            captures.push({ label: target.label, error: applied.error ?? "Failed to apply viewport" });
+            continue;
+          }
+
+          await new Promise((r) => setTimeout(r, params.settleMs ?? 300));
+          const shot = await executeCommand(
+            { id: Date.now().toString(), action: "screenshot", path: localPath, fullPage: params.fullPage ?? false },
+            session.browser
+          ) as any;
+          if (shot?.success === false || !existsSync(localPath)) {
+            captures.push({ label: target.label, error: shot?.error ?? "Screenshot failed" });
+            continue;
+          }
+
+          const upload = await uploadArtifact(localPath, filename, "image/png", session);
+          captures.push({
+            label: target.label,
+            ...(target.device ? { device: target.device } : {}),
+            viewport,
+            path: upload.url ?? localPath,
+            ...(upload.uploadError ? { uploadError: upload.uploadError } : {}),
+          });
+          try {
+            shots.push({ png: PNG.sync.read(readFileSync(localPath)), dpr });
+          } catch {
+            // Unreadable capture still counts individually, it just can't go on the sheet
+          }
+        }
+      } finally {
+        // Put back the session's device emulation (DPR, user agent) before its viewport size
+        if (session.device) {
+          await executeCommand(
+            { id: Date.now().toString(), action: "device", device: session.device },
+            session.browser
+          );
+        } else {
+          await session.browser.clearDeviceMetricsOverride().catch(() => {});
+        }
+        await executeCommand(
+          { id: Date.now().toString(), action: "viewport", width: original.width, height: original.height },
+          session.browser
+        );
+      }
+
+      let sheetUrl: string | null = null;
+      let sheetPath: string | null = null;
+      let sheetUploadError: string | undefined;
+      if (shots.length) {
+        const filename = uniqueFilename(tempDir, `${params.session}-${label}-sheet.png`);
+        sheetPath = join(tempDir, filename);
+        writeFileSync(sheetPath, PNG.sync.write(composeContactSheet(shots)));
+        ({ url: sheetUrl, uploadError: sheetUploadError } = await uploadArtifact(sheetPath, filename, "image/png", session));
+      }
+
+      const captured = captures.filter((c) => !c.error);
+      const markdown = sheetUrl
+        ? [
+            `![${label} (${captured.map((c) => c.label).join(", ")})](${sheetUrl})`,
+            "",
+            `| ${captured.map((c) => c.label).join(" | ")} |`,
+            `|${captured.map(() => "---").join("|")}|`,
+            `| ${captured.map((c) => `[${c.viewport.width}x${c.viewport.height}](${c.path})`).join(" | ")} |`,
+          ].join("\n")
+        : null;
+
+      return text({
+        captured: captured.length,
+        restoredViewport: original,
+        ...(session.device ? { restoredDevice: session.device } : {}),
+        contactSheet: sheetUrl ?? sheetPath,
+        ...(sheetUploadError ? { contactSheetUploadError: sheetUploadError } : {}),
+        captures,
+        ...(markdown ? { markdown } : {}),
+      });
+    },
+  });
+
+  // browser_visual_compare - Visual regression against stored baselines
+  registerTool({
+    name: "ab_visual_compare",
+    description: "Compare a screenshot against a stored baseline (per project and key). Creates the baseline on first run. Returns mismatch percentage and an uploaded diff image.",
+    parameters: {
+      type: "object",
+      properties: {
+        session: { type: "string", description: "Session name" },
+        project: { type: "string", description: "Project name (groups baselines)" },
+        key: { type: "string", description: "Baseline key, e.g. 'dashboard-empty'" },
+        update: { type: "boolean", default: false, description: "Replace the baseline with the current capture" },
+        fullPage: { type: "boolean", default: false, description: "Capture full page" },
+        threshold: { type: "number", default: 0.1, description: "Max mismatched pixels (percent) for the comparison to pass" },
+        pixelThreshold: { type: "number", default: 0.1, description: "Per-pixel color sensitivity, 0 (strict) to 1" },
+        ignore: { type: "array", items: locatorParam("Ref or selector"), description: "Refs, selectors or locators of regions to ignore (timestamps, avatars, ads)" },
+      },
+      required: ["session", "project", "key"],
+    },
+    async execute(_id: string, params: any) {
+      const session = await getSession(params.session, pluginConfig);
+      const text = (value: string) => ({ content: [{ type: "text", text: value }] });
+
+      let baselineFile: string;
+      try {
+        baselineFile = baselinePath(params.project, params.key);
+      } catch (e: any) {
+        return { content: [{ type: "text", text: JSON.stringify({ error: e.message }) }] };
+      }
+
+      const stamp = Date.now();
+      const name = `${params.session}-visual-${params.project}-${params.key}`;
+      const currentFile = join(tempDir, `${name}-${stamp}.png`);
+      const fullPage = params.fullPage ?? false;
+      const shot = await executeCommand(
+        { id: stamp.toString(), action: "screenshot", path: currentFile, fullPage },
+        session.browser
+      ) as any;
+      if (shot?.success === false || !existsSync(currentFile)) {
+        return text(JSON.stringify({ error: shot?.error ?? "Screenshot failed", project: params.project, key: params.key }));
+      }
+
+      if (params.update || !existsSync(baselineFile)) {
+        mkdirSync(dirname(baselineFile), { recursive: true });
+        copyFileSync(currentFile, baselineFile);
+        return text(JSON.stringify({
+          baselineCreated: !params.update,
+          baselineUpdated: Boolean(params.update),
+          project: params.project,
+          key: params.key,
+          baseline: baselineFile,
+        }));
+      }
+
+      const current = PNG.sync.read(readFileSync(currentFile));
+      const regions = await ignoreRegions(session, params.ignore ?? [], current.width, fullPage);
+      const diffFile = join(tempDir, `${name}-${stamp}-diff.png`);
+      const diff = diffImages(baselineFile, currentFile, diffFile, regions, params.pixelThreshold ?? 0.1);
+      const threshold = params.threshold ?? 0.1;
+      const passed = !diff.sizeMismatch && diff.mismatchPercent <= threshold;
+
+      const diffUpload: UploadResult = diff.sizeMismatch
+        ? { url: null }
+        : await uploadArtifact(diffFile, `${name}-${stamp}-diff.png`, "image/png", session);
+      const currentUpload = await uploadArtifact(currentFile, `${name}-${stamp}.png`, "image/png", session);
+      const diffUrl = diffUpload.url;
+      const currentUrl = currentUpload.url;
+      const uploadError = diffUpload.uploadError ?? currentUpload.uploadError;
+
+      const verdict = {
+        passed,
+        project: params.project,
+        key: params.key,
+        mismatchPercent: diff.mismatchPercent,
+        diffPixels: diff.diffPixels,
+        threshold,
+        ...(diff.sizeMismatch ? { sizeMismatch: diff.sizeMismatch } : {}),
+        ...(regions.length ? { ignoredRegions: regions.length } : {}),
+        current: currentUrl ?? currentFile,
+        ...(diff.sizeMismatch ? {} : { diff: diffUrl ?? diffFile }),
+        ...(diffUrl ? { markdown: `![${params.key} diff (${diff.mismatchPercent}% changed)](${diffUrl})` } : {}),
+        ...(uploadError ? { uploadError } : {}),
+      };
+      return text(JSON.stringify(verdict));
+    },
+  });
+
+  // browser_record_start - Start video recording
+  registerTool({
+    name: "ab_record_start",
+    description: "Start recording the browser session to video",
+    parameters: {
+      type: "object",
+      properties: {
+        session: { type: "string", description: "Session name" },
+        label: { type: "string", description: "Label for the video" },
+        annotate: { type: "boolean", description: "Overlay click ripples, typed text and step banners (default: true)" },
+      },
+      required: ["session"],
+    },
+    async execute(_id: string, params: any) {
+      const session = await getSession(params.session, pluginConfig);
+
+      if (session.recording) {
+        return { content: [{ type: "text", text: JSON.stringify({ error: "Already recording" }) }] };
+      }
+
+      const label = params.label || `recording-${Date.now()}`;
+      const filename = uniqueFilename(tempDir, `${params.session}-${label}.webm`);
+      const localPath = join(tempDir, filename);
+
+      await executeCommand(
+        { id: Date.now().toString(), action: "recording_start", path: localPath },
+        session.browser
+      );
+      session.recording = true;
+      session.recordingPath = localPath;
+      session.annotate = params.annotate ?? pluginConfig.annotations?.enabled ?? true;
+      session.step = 0;
+
+      return { content: [{ type: "text", text: JSON.stringify({ recording: true, label }) }] };
+    },
+  });
+
+  // browser_record_stop - Stop video recording
+  registerTool({
+    name: "ab_record_stop",
+    description: "Stop recording, speed up long videos, optionally convert to GIF, and upload to artifact storage",
+    parameters: {
+      type: "object",
+      properties: {
+        session: { type: "string", description: "Session name" },
+      },
+      required: ["session"],
+    },
+    async execute(_id: string, params: any) {
+      const session = await getSession(params.session, pluginConfig);
+
+      if (!session.recording) {
+        return { content: [{ type: "text", text: JSON.stringify({ error: "Not recording" }) }] };
+      }
+
+      if (session.annotate) {
+        await executeCommand(
+          {
+            id: Date.now().toString(),
+            action: "evaluate",
+            script: `document.getElementById(${JSON.stringify(OVERLAY_ID)})?.remove()`,
+          },
+          session.browser
+        ).catch(() => {});
+      }
+
+      const result = await executeCommand(
+        { id: Date.now().toString(), action: "recording_stop" },
+        session.browser
+      ) as any;
+      session.recording = false;
+
+      let finalPath = result.data?.path || session.recordingPath;
+      let contentType = "video/webm";
+      let processed: ProcessedRecording | null = null;
+
+      // Trim idle stretches, speed up long recordings, transcode
+      if (finalPath && recordingNeedsProcessing(pluginConfig) && await hasFfmpeg()) {
+        try {
+          processed = await processRecording(finalPath, pluginConfig);
+          finalPath = processed.path;
+          contentType = processed.contentType;
+        } catch (e) {
+          console.error("[agent-browser] Video processing failed:", e);
+        }
+      }
+
+      // Convert to GIF if enabled
+      if (pluginConfig.gif?.enabled && finalPath && await hasFfmpeg()) {
+        const gifPath = finalPath.replace(/\.[^./]+$/, ".gif");
+        try {
+          await convertToGif(finalPath, gifPath);
+          finalPath = gifPath;
+          contentType = "image/gif";
+        } catch (e) {
+          console.error("[agent-browser] GIF conversion failed:", e);
+        }
+      }
+
+      const filename = finalPath?.split("/").pop() || "video.webm";
+      const upload = await uploadArtifact(finalPath, filename, contentType, session);
+      const remoteUrl = upload.url;
+
+      const markdown = remoteUrl
+        ? contentType === "image/gif" ? `![recording](${remoteUrl})` : `[recording](${remoteUrl})`
+        : null;
+
+      const details = processed
+        ? `Duration: ${Math.round(processed.durationSec)}s` +
+          (processed.trimmed ? ", idle frames trimmed" : "") +
+          (processed.speedup > 1 ? `, sped up ${processed.speedup}x to ${Math.round(processed.outputDurationSec)}s` : "") +
+          "\n\n"
+        : "";
+
+      return {
+        content: [{
+          type: "text",
+          text: remoteUrl
+            ? `Recording saved and uploaded.\n\n${details}${markdown}\n\nInclude the above markdown in your report.`
+            : `Recording saved locally: ${finalPath}\n\n${details}${noUrlNote(upload)}`,
+        }],
+      };
+    },
+  });
+
+  // browser_session_save - Save cookies and storage as a named profile
+  registerTool({
+    name: "ab_session_save",
+    description: "Save the session's cookies, localStorage and sessionStorage (current origin) as a named profile on disk",
+    parameters: {
+      type: "object",
+      properties: {
+        session: { type: "string", description: "Session name" },
+        profile: { type: "string", description: "Profile name (letters, numbers, dashes, underscores)" },
+      },
+      required: ["session", "profile"],
+    },
+    async execute(_id: string, params: any) {
+      const session = await getSession(params.session, pluginConfig);
+      try {
+        const profile = await saveProfile(session, params.profile);
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              saved: true,
+              profile: profile.name,
+              cookies: profile.cookies.length,
+              origins: profile.origins.map((o) => o.origin),
+            }),
+          }],
+        };
+      } catch (e: any) {
+        return { content: [{ type: "text", text: JSON.stringify({ error: e.message }) }] };
+      }
+    },
+  });
+
+  // browser_session_load - Restore a saved profile into a session
+  registerTool({
+    name: "ab_session_load",
+    description: "Restore a saved profile (cookies, localStorage, sessionStorage) into the session to skip logging in",
     parameters: {
       type: "object",
       properties: {
         session: { type: "string", description: "Session name" },
-        action: { type: "string", enum: ["back", "forward", "reload"], description: "Navigation action" },
+        profile: { type: "string", description: "Profile name" },
       },
-      required: ["session", "action"],
+      required: ["session", "profile"],
     },
     async execute(_id: string, params: any) {
       const session = await getSession(params.session, pluginConfig);
-      const result = await executeCommand(
-        { id: Date.now().toString(), action: params.action },
-        session.browser
-      );
-      return { content: [{ type: "text", text: JSON.stringify(result) }] };
+      try {
+        const profile = await loadProfile(session, params.profile);
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              loaded: true,
+              profile: profile.name,
+              savedAt: profile.savedAt,
+              cookies: profile.cookies.length,
+              origins: profile.origins.map((o) => o.origin),
+            }),
+          }],
+        };
+      } catch (e: any) {
+        return { content: [{ type: "text", text: JSON.stringify({ error: e.message }) }] };
+      }
     },
   });
 
-  // browser_snapshot - Get accessibility tree
-  api.registerTool({
-    name: "ab_snapshot",
-    description: "Get accessibility tree with element refs (@e1, @e2, etc.) for interacting with elements",
+  // browser_network - Network capture and HAR export
+  registerTool({
+    name: "ab_network",
+    description: "Capture session network traffic: start, stop, list, filter, failures (4xx/5xx, blocked, CORS summary), export (HAR file, uploaded like screenshots)",
     parameters: {
       type: "object",
       properties: {
         session: { type: "string", description: "Session name" },
-        interactive: { type: "boolean", default: true, description: "Only show interactive elements" },
+        action: {
+          type: "string",
+          enum: ["start", "stop", "list", "filter", "failures", "export"],
+          description: "Network action",
+        },
+        url: { type: "string", description: "URL substring (filter)" },
+        method: { type: "string", description: "HTTP method (filter)" },
+        resourceType: { type: "string", description: "Resource type, e.g. 'xhr', 'fetch', 'document' (filter)" },
+        statusMin: { type: "number", description: "Minimum status code (filter)" },
+        statusMax: { type: "number", description: "Maximum status code (filter)" },
+        failedOnly: { type: "boolean", description: "Only failed requests (filter)" },
+        limit: { type: "number", default: 100, description: "Max requests returned by list/filter (most recent)" },
+        label: { type: "string", description: "Label for the HAR filename (export)" },
+        redact: { type: "boolean", default: true, description: "Mask Authorization, Cookie, Set-Cookie, API key and token headers in the HAR (export)" },
       },
-      required: ["session"],
+      required: ["session", "action"],
     },
     async execute(_id: string, params: any) {
       const session = await getSession(params.session, pluginConfig);
-      const result = await executeCommand(
-        { id: Date.now().toString(), action: "snapshot", filter: params.interactive ?? true ? "interactive" : undefined },
-        session.browser
-      ) as any;
-      return { content: [{ type: "text", text: result.data?.snapshot || JSON.stringify(result) }] };
+      const text = (value: any) => ({ content: [{ type: "text", text: JSON.stringify(value) }] });
+
+      if (params.action === "start") {
+        startNetworkCapture(session);
+        return text({ capturing: true });
+      }
+
+      const capture = session.network;
+      if (!capture) {
+        return text({ error: "Network capture not started. Call ab_network with action 'start' first." });
+      }
+
+      switch (params.action) {
+        case "stop": {
+          capture.detach();
+          const { total, failed, byKind } = summarizeNetworkFailures(capture.entries);
+          return text({ capturing: false, total, failed, byKind });
+        }
+        case "list":
+        case "filter": {
+          const matched = params.action === "filter" ? filterNetworkEntries(capture.entries, params) : capture.entries;
+          const limit = params.limit ?? 100;
+          return text({
+            capturing: capture.capturing,
+            total: capture.entries.length,
+            matched: matched.length,
+            requests: matched.slice(-limit).map(summarizeNetworkEntry),
+          });
+        }
+        case "failures":
+          return text(summarizeNetworkFailures(capture.entries));
+        case "export": {
+          const label = params.label || `network-${Date.now()}`;
+          const filename = uniqueFilename(tempDir, `${params.session}-${label}.har`);
+          const localPath = join(tempDir, filename);
+          writeFileSync(localPath, JSON.stringify(toHar(capture.entries, params.redact ?? true), null, 2));
+
+          const upload = await uploadArtifact(localPath, filename, "application/json", session);
+          const remoteUrl = upload.url;
+          const failures = summarizeNetworkFailures(capture.entries);
+          const summary = `${capture.entries.length} requests, ${failures.failed} failed` +
+            (failures.failed ? ` (${Object.entries(failures.byKind).map(([k, n]) => `${k}: ${n}`).join(", ")})` : "");
+
+          return {
+            content: [{
+              type: "text",
+              text: remoteUrl
+                ? `HAR exported and uploaded: ${summary}.\n\n[${label}.har](${remoteUrl})\n\nInclude the above link in your report.`
+                : `HAR saved locally: ${localPath}\n\n${summary}.\n\n${noUrlNote(upload)}`,
+            }],
+          };
+        }
+        default:
+          return text({ error: `Unknown network action: ${params.action}` });
+      }
     },
   });
 
-  // browser_click - Click element
-  api.registerTool({
-    name: "ab_click",
-    description: "Click an element by ref (@e5) or CSS selector",
+  // browser_console - Console and page-error logs
+  registerTool({
+    name: "ab_console",
+    description: "Read buffered console messages, uncaught page exceptions and failed resource loads, with level filtering and search; or clear the buffer",
     parameters: {
       type: "object",
       properties: {
         session: { type: "string", description: "Session name" },
-        selector: { type: "string", description: "Element ref (@e5) or CSS selector" },
+        action: { type: "string", enum: ["read", "clear"], default: "read", description: "Read or clear logs" },
+        level: {
+          type: "array",
+          items: { type: "string", enum: ["log", "debug", "info", "warning", "error", "pageerror", "network"] },
+          description: "Only these levels (default: all)",
+        },
+        search: { type: "string", description: "Case-insensitive text or URL substring" },
+        limit: { type: "number", default: 50, description: "Max entries returned (most recent)" },
       },
-      required: ["session", "selector"],
+      required: ["session"],
     },
     async execute(_id: string, params: any) {
       const session = await getSession(params.session, pluginConfig);
-      const result = await executeCommand(
-        { id: Date.now().toString(), action: "click", selector: params.selector },
-        session.browser
+
+      if (params.action === "clear") {
+        const cleared = session.logs.length;
+        session.logs.length = 0;
+        return { content: [{ type: "text", text: JSON.stringify({ cleared }) }] };
+      }
+
+      const levels: string[] | undefined = typeof params.level === "string" ? [params.level] : params.level;
+      const search = params.search?.toLowerCase();
+      const matched = session.logs.filter((l) =>
+        (!levels?.length || levels.includes(l.level)) &&
+        (!search || l.text.toLowerCase().includes(search) || (l.url ?? "").toLowerCase().includes(search))
       );
-      return { content: [{ type: "text", text: JSON.stringify(result) }] };
+      const limit = params.limit ?? 50;
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            total: session.logs.length,
+            matched: matched.length,
+            counts: countLogErrors(session.logs),
+            entries: matched.slice(-limit).map((l) => ({
+              level: l.level,
+              text: l.text,
+              ...(l.url ? { url: l.url } : {}),
+              time: new Date(l.timestamp).toISOString(),
+            })),
+          }),
+        }],
+      };
     },
   });
 
-  // browser_fill - Fill input field
-  api.registerTool({
-    name: "ab_fill",
-    description: "Clear and fill an input field by ref or selector",
+  // browser_mock - Request mocking and interception
+  registerTool({
+    name: "ab_mock",
+    description: "Mock or intercept requests by URL pattern: fulfill with a static body, JSON or fixture file, abort, delay, or rewrite headers. List and remove active rules.",
     parameters: {
       type: "object",
       properties: {
         session: { type: "string", description: "Session name" },
-        selector: { type: "string", description: "Element ref (@e5) or CSS selector" },
-        value: { type: "string", description: "Value to fill" },
+        action: { type: "string", enum: ["add", "list", "remove"], description: "Mock action" },
+        pattern: { type: "string", description: "URL glob (e.g. '**/api/orders*') or /regex/ (add)" },
+        method: { type: "string", description: "Only match this HTTP method (add)" },
+        respond: {
+          type: "string",
+          enum: ["fulfill", "abort", "continue"],
+          description: "fulfill with a mocked response, abort the request, or continue to the server (default: fulfill when a body is given, else continue)",
+        },
+        status: { type: "number", default: 200, description: "Response status (fulfill)" },
+        body: { type: "string", description: "Response body (fulfill)" },
+        json: { description: "JSON response body (fulfill)" },
+        fixture: { type: "string", description: "File under fixturesDir used as the response body (fulfill)" },
+        contentType: { type: "string", description: "Response content type (fulfill)" },
+        errorCode: { type: "string", description: "Abort reason, e.g. 'failed', 'timedout', 'blockedbyclient' (abort)" },
+        delayMs: { type: "number", description: "Delay before responding (any)" },
+        requestHeaders: { type: "object", description: "Headers to add/override on the outgoing request (continue)" },
+        responseHeaders: { type: "object", description: "Headers to add/override on the response (fulfill, continue)" },
+        id: { type: "number", description: "Rule id to remove (remove; omit to remove all)" },
       },
-      required: ["session", "selector", "value"],
+      required: ["session", "action"],
     },
     async execute(_id: string, params: any) {
       const session = await getSession(params.session, pluginConfig);
-      const result = await executeCommand(
-        { id: Date.now().toString(), action: "fill", selector: params.selector, value: params.value },
-        session.browser
-      );
-      return { content: [{ type: "text", text: JSON.stringify(result) }] };
+      const text = (value: any) => ({ content: [{ type: "text", text: JSON.stringify(value) }] });
+
+      try {
+        switch (params.action) {
+          case "add": {
+            const rule = await addMockRule(session, params);
+            return text({ added: true, rule: describeMockRule(rule) });
+          }
+          case "list":
+            return text({ rules: [...session.mocks.values()].map(describeMockRule) });
+          case "remove": {
+            const targets = params.id !== undefined
+              ? [session.mocks.get(params.id)].filter((r): r is MockRule => Boolean(r))
+              : [...session.mocks.values()];
+            if (params.id !== undefined && targets.length === 0) {
+              return text({ error: `Mock rule not found: ${params.id}` });
+            }
+            for (const rule of targets) {
+              await removeMockRule(session, rule);
+            }
+            return text({ removed: targets.map((r) => r.id) });
+          }
+          default:
+            return text({ error: `Unknown mock action: ${params.action}` });
+        }
+      } catch (e: any) {
+        return text({ error: e?.message ?? String(e) });
+      }
     },
   });
 
-  // browser_interact - Multiple interaction types
-  api.registerTool({
-    name: "ab_interact",
-    description: "Interact with elements: hover, focus, drag, scroll, type, press, select, check, uncheck, dblclick",
+  // browser_trace - Per-session action timeline: view, export, replay
+  registerTool({
+    name: "ab_trace",
+    description: "Timeline of every ab_* call in a session (params, result, duration, optional before/after screenshots). show, export (JSON or self-contained HTML, uploaded), replay a saved trace into this session, toggle screenshots, clear.",
     parameters: {
       type: "object",
       properties: {
-        session: { type: "string", description: "Session name" },
+        session: { type: "string", description: "Session name (replay runs into this session)" },
         action: {
           type: "string",
-          enum: ["hover", "focus", "drag", "scroll", "type", "press", "select", "check", "uncheck", "dblclick"],
-          description: "Interaction type",
+          enum: ["show", "export", "replay", "screenshots", "clear"],
+          description: "Trace action",
         },
-        selector: { type: "string", description: "Element ref or selector (not needed for scroll, press)" },
-        value: { type: "string", description: "Value for type/select, target for drag, key for press, direction for scroll (up/down/left/right)" },
-        amount: { type: "number", description: "Pixels for scroll (default 300)" },
+        format: { type: "string", enum: ["json", "html"], default: "json", description: "Export format" },
+        label: { type: "string", description: "Label for the exported filename" },
+        enabled: { type: "boolean", description: "Capture before/after screenshots for each call (screenshots)" },
+        path: { type: "string", description: "Exported JSON trace to replay (plugin temp directory or tracesDir)" },
+        fromSession: { type: "string", description: "Replay the live trace of another session instead of a file" },
+        includeFailed: { type: "boolean", default: false, description: "Also replay calls that failed originally" },
+        continueOnError: { type: "boolean", default: false, description: "Keep replaying after a failed call" },
       },
       required: ["session", "action"],
     },
-    async execute(_id: string, params: any) {
-      const session = await getSession(params.session, pluginConfig);
-      const cmd: any = { id: Date.now().toString(), action: params.action };
+    async execute(id: string, params: any) {
+      const text = (value: any) => ({ content: [{ type: "text", text: JSON.stringify(value) }] });
 
-      if (params.selector) cmd.selector = params.selector;
-      if (params.action === "type") cmd.text = params.value;
-      if (params.action === "press") cmd.key = params.value;
-      if (params.action === "select") cmd.value = params.value;
-      if (params.action === "drag") cmd.target = params.value;
-      if (params.action === "scroll") {
-        cmd.direction = params.value || "down";
-        cmd.amount = params.amount || 300;
+      if (params.action === "replay") {
+        let entries: TraceEntry[];
+        try {
+          if (params.path) {
+            // Only exported traces (temp dir) or tracesDir files; errors never echo file contents
+            const path = confinedPath(params.path, [tempDir, ...(pluginConfig.tracesDir ? [pluginConfig.tracesDir] : [])]);
+            if (!path) throw new Error(`Trace path must be inside the plugin temp directory or tracesDir: ${params.path}`);
+            let raw: string;
+            try {
+              raw = readFileSync(path, "utf-8");
+            } catch {
+              throw new Error(`Cannot read trace file: ${params.path}`);
+            }
+            try {
+              entries = JSON.parse(raw)?.entries;
+            } catch {
+              throw new Error(`Trace file is not valid JSON: ${params.path}`);
+            }
+          } else if (params.fromSession) {
+            const source = sessions.get(params.fromSession);
+            if (!source) throw new Error(`Session not found: ${params.fromSession}`);
+            entries = [...source.trace];
+          } else {
+            throw new Error("Replay needs `path` or `fromSession`");
+          }
+          if (!Array.isArray(entries)) throw new Error("Trace file has no entries");
+        } catch (e: any) {
+          return text({ error: e?.message ?? String(e) });
+        }
+
+        const steps: any[] = [];
+        let stopped = false;
+        for (const entry of entries) {
+          const tool = tools.get(entry.tool);
+          if (stopped || !tool || UNTRACED_TOOLS.has(entry.tool) || (!entry.ok && !params.includeFailed)) {
+            steps.push({ seq: entry.seq, tool: entry.tool, status: "skipped" });
+            continue;
+          }
+          const started = Date.now();
+          let error: string | null;
+          try {
+            if (entry.params?.value === REDACTED || Object.values(entry.params?.fields ?? {}).includes(REDACTED)) {
+              throw new Error("Typed values were redacted from the trace; enter them with ab_fill and replay the remaining steps");
+            }
+            error = toolResultError(toolResultValue(await tool.execute(id, { ...entry.params, session: params.session })));
+          } catch (e: any) {
+            error = e?.message ?? String(e);
+          }
+          steps.push({
+            seq: entry.seq,
+            tool: entry.tool,
+            status: error ? "failed" : "passed",
+            ...(error ? { error } : {}),
+            durationMs: Date.now() - started,
+          });
+          if (error && !params.continueOnError) stopped = true;
+        }
+
+        const count = (status: string) => steps.filter((s) => s.status === status).length;
+        return text({
+          passed: count("failed") === 0,
+          summary: { total: steps.length, passed: count("passed"), failed: count("failed"), skipped: count("skipped") },
+          steps,
+        });
       }
 
-      const result = await executeCommand(cmd, session.browser);
-      return { content: [{ type: "text", text: JSON.stringify(result) }] };
+      const session = sessions.get(params.session);
+      if (!session) {
+        return text({ error: "Session not found" });
+      }
+
+      switch (params.action) {
+        case "show":
+          return text({
+            total: session.trace.length,
+            screenshots: session.traceScreenshots,
+            entries: session.trace.map((e) => ({
+              seq: e.seq,
+              tool: e.tool,
+              ok: e.ok,
+              durationMs: e.durationMs,
+              ...(e.error ? { error: e.error } : {}),
+            })),
+          });
+        case "screenshots":
+          session.traceScreenshots = params.enabled ?? true;
+          return text({ screenshots: session.traceScreenshots });
+        case "clear": {
+          const cleared = session.trace.length;
+          session.trace = [];
+          return text({ cleared });
+        }
+        case "export": {
+          const format = params.format === "html" ? "html" : "json";
+          const label = params.label || `trace-${Date.now()}`;
+          const filename = uniqueFilename(tempDir, `${params.session}-${label}.${format}`);
+          const localPath = join(tempDir, filename);
+          writeFileSync(
+            localPath,
+            format === "html"
+              ? renderTraceHtml(params.session, session.trace)
+              : JSON.stringify({ session: params.session, exportedAt: new Date().toISOString(), entries: session.trace }, null, 2)
+          );
+
+          const upload = await uploadArtifact(localPath, filename, format === "html" ? "text/html" : "application/json", session);
+          const remoteUrl = upload.url;
+          const failed = session.trace.filter((e) => !e.ok).length;
+          const summary = `${session.trace.length} calls, ${failed} failed`;
+          return {
+            content: [{
+              type: "text",
+              text: remoteUrl
+                ? `Trace exported and uploaded: ${summary}.\n\n[${label}.${format}](${remoteUrl})\n\nInclude the above link in your report.`
+                : `Trace saved locally: ${localPath}\n\n${summary}.\n\n${noUrlNote(upload)}`,
+            }],
+          };
+        }
+        default:
+          return text({ error: `Unknown trace action: ${params.action}` });
+      }
     },
   });
 
-  // browser_query - Get info/state from page
-  api.registerTool({
-    name: "ab_query",
-    description: "Query page info: gettext, isvisible, isenabled, ischecked, title, url, count",
+  // browser_export_test - Playwright spec from the session's trace
+  registerTool({
+    name: "ab_export_test",
+    description: "Turn the session's successful actions into a runnable @playwright/test spec. Refs become getByRole/getByLabel/... locators, verified ab_query results and ab_assert calls become expect() assertions. Observation-only calls (snapshots, screenshots, audits) are left out; steps with no Playwright equivalent throw in the spec and are listed in `warnings`.",
     parameters: {
       type: "object",
       properties: {
         session: { type: "string", description: "Session name" },
-        action: {
-          type: "string",
-          enum: ["gettext", "isvisible", "isenabled", "ischecked", "title", "url", "count", "getattribute"],
-          description: "Query type",
-        },
-        selector: { type: "string", description: "Element ref or selector (required for element queries)" },
-        attribute: { type: "string", description: "Attribute name (for getattribute)" },
+        name: { type: "string", description: "Test title (default: session name)" },
+        path: { type: "string", description: "Write the spec here, inside testsDir or the temp dir; relative paths resolve in testsDir when set (default: <session>.spec.ts in the temp dir)" },
+        assertQueries: { type: "boolean", default: true, description: "Turn ab_query results into expect() assertions" },
       },
-      required: ["session", "action"],
+      required: ["session"],
     },
     async execute(_id: string, params: any) {
-      const session = await getSession(params.session, pluginConfig);
-      const cmd: any = { id: Date.now().toString(), action: params.action };
-      if (params.selector) cmd.selector = params.selector;
-      if (params.attribute) cmd.attribute = params.attribute;
+      const session = sessions.get(params.session);
+      if (!session) {
+        return { content: [{ type: "text", text: JSON.stringify({ error: "Session not found" }) }] };
+      }
 
-      const result = await executeCommand(cmd, session.browser);
-      return { content: [{ type: "text", text: JSON.stringify(result) }] };
+      const { code, steps, warnings } = renderPlaywrightSpec(params.name || params.session, session.trace, params.assertQueries ?? true);
+      const path = params.path
+        ? confinedPath(params.path, [...(pluginConfig.testsDir ? [pluginConfig.testsDir] : []), tempDir])
+        : join(tempDir, `${params.session}.spec.ts`);
+      if (!path) {
+        return { content: [{ type: "text", text: JSON.stringify({ error: `Spec path must be inside testsDir or the plugin temp directory: ${params.path}` }) }] };
+      }
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(path, code);
+
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({ path, steps, ...(warnings.length ? { warnings } : {}), code }),
+        }],
+      };
     },
   });
 
-  // browser_screenshot - Screenshot with optional device emulation
-  api.registerTool({
-    name: "ab_screenshot",
-    description: "Take a screenshot, optionally emulating a device first. Returns local path and R2 URL if configured.",
+  // browser_report - One HTML/markdown report per session
+  registerTool({
+    name: "ab_report",
+    description: "Build one report for the session: checks (ab_assert, ab_visual_compare, ab_a11y_audit), every step, console errors and all uploaded artifacts. The HTML is self-contained (screenshots embedded) and uploaded; the markdown version is returned for PR comments.",
     parameters: {
       type: "object",
       properties: {
         session: { type: "string", description: "Session name" },
-        label: { type: "string", description: "Label for filename" },
-        fullPage: { type: "boolean", default: false, description: "Capture full page" },
-        device: { type: "string", description: "Device to emulate before screenshot (e.g. 'iPhone 14', 'Pixel 5')" },
+        title: { type: "string", description: "Report title (default: 'Session report: <session>')" },
+        label: { type: "string", description: "Label for the report filenames" },
       },
       required: ["session"],
     },
     async execute(_id: string, params: any) {
-      const session = await getSession(params.session, pluginConfig);
-
-      // Apply device emulation if specified
-      if (params.device) {
-        await executeCommand(
-          { id: Date.now().toString(), action: "device", device: params.device },
-          session.browser
-        );
+      const session = sessions.get(params.session);
+      if (!session) {
+        return { content: [{ type: "text", text: JSON.stringify({ error: "Session not found" }) }] };
       }
 
-      const label = params.label || `screenshot-${Date.now()}`;
-      const filename = `${params.session}-${label}.png`;
-      const localPath = join(tempDir, filename);
-
-      await executeCommand(
-        { id: Date.now().toString(), action: "screenshot", path: localPath, fullPage: params.fullPage ?? false },
-        session.browser
-      );
+      const report = buildSessionReport(params.session, session, params.title || `Session report: ${params.session}`);
+      const label = params.label || `report-${Date.now()}`;
+      const htmlName = uniqueFilename(tempDir, `${params.session}-${label}.html`);
+      const htmlPath = join(tempDir, htmlName);
+      writeFileSync(htmlPath, renderReportHtml(report));
+      const htmlUpload = await uploadArtifact(htmlPath, htmlName, "text/html", session, false);
+      const htmlUrl = htmlUpload.url;
 
-      const remoteUrl = await uploadToR2(localPath, filename, "image/png");
-      const markdown = remoteUrl ? `![${label}](${remoteUrl})` : null;
+      const markdown = renderReportMarkdown(report, htmlUrl);
+      const mdName = htmlName.replace(/\.html$/, ".md");
+      const mdPath = join(tempDir, mdName);
+      writeFileSync(mdPath, markdown);
+      const mdUpload = await uploadArtifact(mdPath, mdName, "text/markdown", session, false);
+      const mdWarning = htmlUrl && mdUpload.uploadError ? `\n\nMarkdown upload failed (${mdUpload.uploadError}); saved locally: ${mdPath}` : "";
 
+      const summary = reportSummary(report);
       return {
         content: [{
           type: "text",
-          text: remoteUrl
-            ? `Screenshot captured and uploaded.\n\n${markdown}\n\nInclude the above markdown image in your report.`
-            : `Screenshot saved locally: ${localPath}\n\nR2 upload not configured — no public URL available.`,
+          text: htmlUrl
+            ? `Session report uploaded: ${summary}.\n\n[${report.title}](${htmlUrl})\n\nInclude the above link in your report. Markdown for PR comments:\n\n${markdown}${mdWarning}`
+            : `Session report saved locally: ${htmlPath}\n\nMarkdown: ${mdPath}\n\n${summary}.\n\n${noUrlNote(htmlUpload)}`,
         }],
       };
     },
   });
 
-  // browser_record_start - Start video recording
-  api.registerTool({
-    name: "ab_record_start",
-    description: "Start recording the browser session to video",
+  // browser_artifacts - Registry of uploaded files: list, get, delete, prune
+  registerTool({
+    name: "ab_artifacts",
+    description: "Artifacts (screenshots, recordings, HAR, traces, reports) recorded with ID, SHA-256, size and content type. list (optionally per session), get one (text content inlined for text types), delete by ID or session, prune to apply the retention policy now.",
     parameters: {
       type: "object",
       properties: {
-        session: { type: "string", description: "Session name" },
-        label: { type: "string", description: "Label for the video" },
+        action: { type: "string", enum: ["list", "get", "delete", "prune"], default: "list", description: "Artifact action" },
+        session: { type: "string", description: "Only this session's artifacts (list, delete)" },
+        id: { type: "string", description: "Artifact ID (get, delete)" },
+        maxChars: { type: "number", default: 20000, description: "Max characters of text content returned by get" },
       },
-      required: ["session"],
     },
     async execute(_id: string, params: any) {
-      const session = await getSession(params.session, pluginConfig);
+      const text = (value: any) => ({ content: [{ type: "text", text: JSON.stringify(value) }] });
+      const describe = (record: ArtifactRecord) => ({ ...record, exists: existsSync(record.path) });
 
-      if (session.recording) {
-        return { content: [{ type: "text", text: JSON.stringify({ error: "Already recording" }) }] };
+      switch (params.action ?? "list") {
+        case "list": {
+          const records = [...artifactRegistry.values()]
+            .filter((r) => !params.session || r.session === params.session)
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+          return text({
+            total: records.length,
+            totalBytes: records.reduce((sum, r) => sum + r.size, 0),
+            artifacts: records.map(describe),
+          });
+        }
+        case "get": {
+          const record = artifactRegistry.get(params.id);
+          if (!record) {
+            return text({ error: `Artifact not found: ${params.id}` });
+          }
+          if (!existsSync(record.path)) {
+            return text({ ...describe(record), error: "Local file was deleted" });
+          }
+          // Presigned links expire; hand out a fresh one
+          if (record.key && record.url && artifactStore?.presignUrl) {
+            record.url = await artifactStore.presignUrl(record.key);
+            record.urlExpiresAt = new Date(Date.now() + artifactStore.urlExpiresInSec! * 1000).toISOString();
+            saveArtifactManifest();
+          }
+          const data = readFileSync(record.path);
+          const intact = createHash("sha256").update(data).digest("hex") === record.sha256;
+          const isText = /^text\/|json|xml/.test(record.contentType);
+          const maxChars = params.maxChars ?? 20000;
+          const content = isText ? data.toString("utf-8") : undefined;
+          return text({
+            ...describe(record),
+            intact,
+            ...(content !== undefined
+              ? { content: content.slice(0, maxChars), ...(content.length > maxChars ? { truncated: true } : {}) }
+              : {}),
+          });
+        }
+        case "delete": {
+          if (!params.id && !params.session) {
+            return text({ error: "Delete needs `id` or `session`" });
+          }
+          const records = params.id
+            ? [artifactRegistry.get(params.id)].filter((r): r is ArtifactRecord => !!r)
+            : [...artifactRegistry.values()].filter((r) => r.session === params.session);
+          if (params.id && !records.length) {
+            return text({ error: `Artifact not found: ${params.id}` });
+          }
+          let freedBytes = 0;
+          for (const record of records) {
+            if (existsSync(record.path)) {
+              unlinkSync(record.path);
+              freedBytes += record.size;
+            }
+          }
+          forgetArtifacts(new Set(records.map((r) => r.path)));
+          return text({
+            deleted: records.map((r) => r.id),
+            freedBytes,
+            note: "Local files only; uploaded copies are left in storage",
+          });
+        }
+        case "prune": {
+          const { deleted, freedBytes } = pruneArtifacts();
+          return text({ deleted: deleted.length, freedBytes });
+        }
+        default:
+          return text({ error: `Unknown artifacts action: ${params.action}` });
       }
-
-      const label = params.label || `recording-${Date.now()}`;
-      const filename = `${params.session}-${label}.webm`;
-      const localPath = join(tempDir, filename);
-
-      await executeCommand(
-        { id: Date.now().toString(), action: "recording_start", path: localPath },
-        session.browser
-      );
-      session.recording = true;
-      session.recordingPath = localPath;
-
-      return { content: [{ type: "text", text: JSON.stringify({ recording: true, label }) }] };
     },
   });
 
-  // browser_record_stop - Stop video recording
-  api.registerTool({
-    name: "ab_record_stop",
-    description: "Stop recording, optionally convert to GIF, and upload to R2",
+  // browser_a11y_audit - WCAG rule checks
+  registerTool({
+    name: "ab_a11y_audit",
+    description: "Run accessibility checks (alt text, form labels, button/link names, color contrast, landmarks, headings, focusable hidden elements) on the page or a scoped element. Returns violations grouped by rule with refs usable by other tools.",
     parameters: {
       type: "object",
       properties: {
         session: { type: "string", description: "Session name" },
+        selector: locatorParam("Ref or CSS selector to scope the audit (omit for whole page)"),
+        rules: {
+          type: "array",
+          items: { type: "string", enum: Object.keys(A11Y_RULES) },
+          description: "Only run these rules (default: all)",
+        },
+        maxNodes: { type: "number", default: 20, description: "Max elements listed per rule" },
+        markdown: { type: "boolean", default: false, description: "Include a markdown summary for PR reports" },
       },
       required: ["session"],
     },
     async execute(_id: string, params: any) {
       const session = await getSession(params.session, pluginConfig);
+      const text = (value: any) => ({ content: [{ type: "text", text: JSON.stringify(value) }] });
 
-      if (!session.recording) {
-        return { content: [{ type: "text", text: JSON.stringify({ error: "Not recording" }) }] };
+      let violations: A11yViolation[];
+      try {
+        violations = await runA11yAudit(session, params);
+      } catch (e: any) {
+        return text({ error: e?.message ?? String(e) });
       }
 
-      const result = await executeCommand(
-        { id: Date.now().toString(), action: "recording_stop" },
-        session.browser
-      ) as any;
-      session.recording = false;
-
-      let finalPath = result.data?.path || session.recordingPath;
-      let contentType = "video/webm";
-
-      // Convert to GIF if enabled
-      if (pluginConfig.gif?.enabled && finalPath) {
-        const gifPath = finalPath.replace(".webm", ".gif");
-        try {
-          convertToGif(finalPath, gifPath);
-          finalPath = gifPath;
-          contentType = "image/gif";
-        } catch (e) {
-          console.error("[agent-browser] GIF conversion failed:", e);
-        }
+      const byImpact: Record<string, number> = {};
+      for (const v of violations) {
+        byImpact[v.impact] = (byImpact[v.impact] ?? 0) + v.count;
       }
-
-      const filename = finalPath?.split("/").pop() || "video.webm";
-      const remoteUrl = await uploadToR2(finalPath, filename, contentType);
-
-      const markdown = remoteUrl
-        ? contentType === "image/gif" ? `![recording](${remoteUrl})` : `[recording](${remoteUrl})`
-        : null;
-
-      return {
-        content: [{
-          type: "text",
-          text: remoteUrl
-            ? `Recording saved and uploaded.\n\n${markdown}\n\nInclude the above markdown in your report.`
-            : `Recording saved locally: ${finalPath}\n\nR2 upload not configured — no public URL available.`,
-        }],
+      const total = violations.reduce((n, v) => n + v.count, 0);
+      const result: Record<string, any> = {
+        passed: total === 0,
+        ...(params.selector ? { scope: params.selector } : {}),
+        summary: { total, byImpact },
+        violations,
       };
+      if (params.markdown) {
+        const url = await executeCommand({ id: Date.now().toString(), action: "url" }, session.browser) as any;
+        result.markdown = a11yMarkdown(url.data?.url, violations);
+      }
+      return text(result);
     },
   });
 
   // browser_tabs - Tab management
-  api.registerTool({
+  registerTool({
     name: "ab_tabs",
     description: "Manage browser tabs: list, new, switch, close",
     parameters: {
@@ -530,7 +5373,7 @@ export default function register(api: any) {
   });
 
   // browser_settings - Viewport and device emulation
-  api.registerTool({
+  registerTool({
     name: "ab_settings",
     description: "Configure browser: viewport size or device emulation",
     parameters: {
@@ -554,13 +5397,14 @@ export default function register(api: any) {
         cmd.device = params.device;
       }
 
-      const result = await executeCommand(cmd, session.browser);
+      const result = await executeCommand(cmd, session.browser) as any;
+      if (params.action === "device" && result?.success !== false) session.device = params.device;
       return { content: [{ type: "text", text: JSON.stringify(result) }] };
     },
   });
 
   // browser_close - Close session
-  api.registerTool({
+  registerTool({
     name: "ab_close",
     description: "Close the browser session and clean up",
     parameters: {
@@ -584,7 +5428,7 @@ export default function register(api: any) {
   });
 
   // browser_advanced - Escape hatch for any action
-  api.registerTool({
+  registerTool({
     name: "ab_advanced",
     description: "Advanced: Run any agent-browser action. Call with no action to see all 50+ available actions. Use other browser_* tools first.",
     parameters: {
@@ -628,6 +5472,103 @@ export default function register(api: any) {
     },
   });
 
+  // browser_run - Run a sequence of tool steps in one call
+  registerTool({
+    name: "ab_run",
+    description: "Run an ordered list of ab_* tool steps in one call, with per-step assertions, variable capture ({{var}}) and continueOnError. Returns a per-step report.",
+    parameters: {
+      type: "object",
+      properties: {
+        session: { type: "string", description: "Session name (used for every step unless the step sets its own)" },
+        steps: {
+          type: "array",
+          description: "Steps to run in order",
+          items: {
+            type: "object",
+            properties: {
+              tool: { type: "string", description: "Tool name, e.g. 'ab_click' or 'click'" },
+              params: { type: "object", description: "Tool parameters (same shape as the tool). Strings may use {{var}}." },
+              continueOnError: { type: "boolean", default: false, description: "Keep going if this step fails" },
+              assert: {
+                type: "object",
+                description: "Check the step result: path (dotted, e.g. 'data.text'), equals, contains, matches (regex), truthy",
+              },
+              capture: {
+                type: "object",
+                description: "Save result values as variables: { varName: 'data.text' }",
+              },
+            },
+            required: ["tool"],
+          },
+        },
+      },
+      required: ["session", "steps"],
+    },
+    async execute(id: string, params: any) {
+      const vars: Record<string, any> = {};
+      const report: any[] = [];
+      let failed = false;
+
+      for (const [index, step] of (params.steps ?? []).entries()) {
+        const name = step.tool?.startsWith("ab_") ? step.tool : `ab_${step.tool}`;
+        if (failed) {
+          report.push({ step: index + 1, tool: name, status: "skipped" });
+          continue;
+        }
+
+        const started = Date.now();
+        const entry: any = { step: index + 1, tool: name };
+        try {
+          const tool = tools.get(name);
+          if (!tool || name === "ab_run") {
+            throw new Error(`Unknown tool: ${step.tool}`);
+          }
+
+          const stepParams = { session: params.session, ...interpolate(step.params ?? {}, vars) };
+          const value = toolResultValue(await tool.execute(id, stepParams));
+          entry.result = value;
+
+          const error = toolResultError(value);
+          if (error) throw new Error(error);
+
+          if (step.assert) {
+            const assertionError = checkStepAssertion(value, step.assert);
+            if (assertionError) throw new Error(assertionError);
+          }
+
+          for (const [varName, path] of Object.entries(step.capture ?? {})) {
+            vars[varName] = getPath(value, path as string);
+          }
+          entry.status = "passed";
+        } catch (e: any) {
+          entry.status = "failed";
+          entry.error = e?.message ?? String(e);
+          if (!step.continueOnError) failed = true;
+        }
+        entry.durationMs = Date.now() - started;
+        report.push(entry);
+      }
+
+      const passed = report.every((r) => r.status === "passed");
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            passed,
+            summary: {
+              total: report.length,
+              passed: report.filter((r) => r.status === "passed").length,
+              failed: report.filter((r) => r.status === "failed").length,
+              skipped: report.filter((r) => r.status === "skipped").length,
+            },
+            variables: vars,
+            steps: report,
+          }),
+        }],
+      };
+    },
+  });
+
   // Cleanup service
   api.registerService({
     id: "agent-browser-cleanup",
@@ -643,6 +5584,11 @@ export default function register(api: any) {
             sessions.delete(name);
           }
         }
+
+        const { deleted, freedBytes } = pruneArtifacts();
+        if (deleted.length) {
+          console.log(`[agent-browser] Retention removed ${deleted.length} files (${Math.round(freedBytes / 1024)} KB)`);
+        }
       }, 60000);
     },
     stop: async () => {